@@ -11,9 +11,13 @@ import DocumentOrdering from '@/components/steps/DocumentOrdering'
 import PacketGeneration from '@/components/steps/PacketGeneration'
 import ThemeProvider from '@/components/ThemeProvider'
 import AdminPanel from '@/components/AdminPanel'
+import ThemeSettings from '@/components/ThemeSettings'
 import Login from '@/components/Login'
 import ProtectedRoute from '@/components/ProtectedRoute'
 
+// Services
+import { packetBuildSession } from '@/services/packetBuildSession'
+
 // Types
 import type { AppState, ProjectFormData, SelectedDocument } from '@/types'
 
@@ -29,6 +33,7 @@ function App() {
 
   // Update form data with useCallback to prevent infinite loops
   const updateFormData = useCallback((data: Partial<ProjectFormData>) => {
+    packetBuildSession.invalidate()
     setAppState(prev => ({
       ...prev,
       formData: { ...prev.formData, ...data }
@@ -37,6 +42,7 @@ function App() {
 
   // Update product type
   const updateProductType = useCallback((productType: ProjectFormData['productType']) => {
+    packetBuildSession.invalidate()
     setAppState(prev => ({
       ...prev,
       formData: { ...prev.formData, productType }
@@ -45,6 +51,7 @@ function App() {
 
   // Update selected documents with useCallback
   const updateSelectedDocuments = useCallback((documents: SelectedDocument[]) => {
+    packetBuildSession.invalidate()
     setAppState(prev => ({
       ...prev,
       selectedDocuments: documents
@@ -93,6 +100,7 @@ function App() {
 
   // Reset application state
   const resetApp = () => {
+    packetBuildSession.invalidate()
     setAppState({
       currentStep: 1,
       formData: {},
@@ -128,6 +136,16 @@ function App() {
               </ProtectedRoute>
             }
           />
+
+          {/* Packet Theme Route */}
+          <Route
+            path="/admin/theme"
+            element={
+              <ProtectedRoute>
+                <ThemeSettings />
+              </ProtectedRoute>
+            }
+          />
           
           {/* Main App Route */}
           <Route
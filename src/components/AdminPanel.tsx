@@ -9,12 +9,18 @@ import {
   X,
   FileText,
   FolderOpen,
-  LogOut
+  LogOut,
+  Palette,
+  Plus,
+  Tag
 } from 'lucide-react'
 import { documentService } from '@/services/documentService'
 import { authService } from '@/services/authService'
+import { productService } from '@/services/productService'
+import { documentTagService } from '@/services/documentTagService'
+import { checkableSubmittalCategories } from '@/utils/submittalCategories'
 import toast from 'react-hot-toast'
-import type { Document, DocumentType, ProductType } from '@/types'
+import type { Document, DocumentTag, DocumentType, Product, ProductType, SubmittalCategory } from '@/types'
 
 interface AdminPanelProps {
   onClose?: () => void
@@ -25,16 +31,34 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
   const [documents, setDocuments] = useState<Document[]>([])
   const [loading, setLoading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState<number>(0)
-  const [selectedCategory, setSelectedCategory] = useState<ProductType>('structural-floor')
+  const [products, setProducts] = useState<Product[]>([])
+  const [selectedCategory, setSelectedCategory] = useState<ProductType>('')
   const [editingDoc, setEditingDoc] = useState<string | null>(null)
   const [editForm, setEditForm] = useState<Partial<Document>>({})
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
+  // Tags mark what a document is, and check its box on the submittal form
+  const [tags, setTags] = useState<DocumentTag[]>([])
+  const [newTagName, setNewTagName] = useState('')
+  const [newTagSubmittalCategory, setNewTagSubmittalCategory] = useState('')
 
   useEffect(() => {
     loadDocuments()
+    loadTags()
+    productService.getProducts().then(loaded => {
+      setProducts(loaded)
+      setSelectedCategory(current => current || loaded[0]?.id || '')
+    })
   }, [])
 
+  const selectedCategoryName = products.find((product) => product.id === selectedCategory)?.name || selectedCategory
+
+  // Tags can check any category but a group header. Products listing the same
+  // category share its id, so each is offered once.
+  const submittalCategories = products
+    .flatMap((product) => checkableSubmittalCategories(product.submittalCategories))
+    .filter((category, index, all) => all.findIndex((other) => other.id === category.id) === index)
+
   const loadDocuments = async () => {
     try {
       setLoading(true)
@@ -48,9 +72,55 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
     }
   }
 
+  const loadTags = async () => {
+    setTags(await documentTagService.getTags())
+  }
+
+  const handleCreateTag = async () => {
+    if (!newTagName.trim()) {
+      setError('Tag name is required')
+      return
+    }
+
+    try {
+      setError(null)
+      await documentTagService.createTag(newTagName, newTagSubmittalCategory || undefined)
+      setNewTagName('')
+      setNewTagSubmittalCategory('')
+      await loadTags()
+      toast.success('Tag added')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add tag')
+      console.error(err)
+    }
+  }
+
+  const handleTagSubmittalCategoryChange = async (tag: DocumentTag, submittalCategory: string) => {
+    try {
+      await documentTagService.updateTag(tag.id, { submittalCategory: submittalCategory || undefined })
+      await loadTags()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tag')
+      console.error(err)
+    }
+  }
+
+  const handleDeleteTag = async (tag: DocumentTag) => {
+    if (!confirm(`Delete the tag ${tag.name}? It is removed from every document that has it.`)) return
+
+    try {
+      await documentTagService.deleteTag(tag.id)
+      await Promise.all([loadTags(), loadDocuments()])
+      toast.success('Tag deleted')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete tag')
+      console.error(err)
+    }
+  }
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
-    if (!files || files.length === 0) return
+    if (!files || files.length === 0 || !selectedCategory) return
 
     setLoading(true)
     setUploadProgress(0)
@@ -82,8 +152,7 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
 
       if (results.successful > 0) {
         setSuccess(
-          'Successfully uploaded ' + results.successful + ' document(s) to ' +
-            (selectedCategory === 'structural-floor' ? 'Structural Floor' : 'Underlayment')
+          'Successfully uploaded ' + results.successful + ' document(s) to ' + selectedCategoryName
         )
       }
 
@@ -176,8 +245,6 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
     navigate('/admin')
   }
 
-  const structuralFloorDocs = documents.filter((doc) => doc.productType === 'structural-floor')
-  const underlaymentDocs = documents.filter((doc) => doc.productType === 'underlayment')
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 p-4">
@@ -187,13 +254,22 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
             <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Document Management</h1>
             <p className="text-gray-600 dark:text-gray-400">Upload and manage PDF documents by category</p>
           </div>
-          <button
-            onClick={handleLogout}
-            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors flex items-center gap-2"
-          >
-            <LogOut className="w-5 h-5" />
-            Logout
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => navigate('/admin/theme')}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Palette className="w-5 h-5" />
+              Packet Theme
+            </button>
+            <button
+              onClick={handleLogout}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors flex items-center gap-2"
+            >
+              <LogOut className="w-5 h-5" />
+              Logout
+            </button>
+          </div>
         </div>
 
         <AnimatePresence>
@@ -229,8 +305,9 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
               onChange={(e) => setSelectedCategory(e.target.value as ProductType)}
               className="w-full max-w-xs px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white"
             >
-              <option value="structural-floor">Structural Floor</option>
-              <option value="underlayment">Underlayment</option>
+              {products.map((product) => (
+                <option key={product.id} value={product.id}>{product.name}</option>
+              ))}
             </select>
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Documents will be uploaded to the selected category</p>
           </div>
@@ -242,7 +319,7 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
                 <Upload className="w-12 h-12 mx-auto mb-4 text-gray-400" />
                 <p className="text-gray-600 dark:text-gray-400 mb-2">Click to upload PDF documents</p>
                 <p className="text-sm text-gray-500 dark:text-gray-500">
-                  Will be added to: <strong>{selectedCategory === 'structural-floor' ? 'Structural Floor' : 'Underlayment'}</strong>
+                  Will be added to: <strong>{selectedCategoryName}</strong>
                 </p>
               </div>
             </label>
@@ -261,47 +338,113 @@ export default function AdminPanel({ onClose }: AdminPanelProps) {
           )}
         </div>
 
+        <div className="glass-card dark:glass-card-dark p-6 mb-8">
+          <h2 className="text-xl font-semibold mb-1 text-gray-900 dark:text-white">Document Tags</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            A tag linked to a submittal category checks that box on the submittal form whenever a document with the tag is in the packet.
+          </p>
+
+          {tags.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-4">No tags yet</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-4">
+              {tags.map((tag) => (
+                <div key={tag.id} className="flex items-center gap-2 border border-gray-200 dark:border-gray-700 rounded-lg px-3 py-2">
+                  <Tag className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <span className="flex-1 text-sm font-medium text-gray-900 dark:text-white truncate">{tag.name}</span>
+                  <select
+                    aria-label={'Submittal category checked by ' + tag.name}
+                    value={tag.submittalCategory || ''}
+                    onChange={(e) => handleTagSubmittalCategoryChange(tag, e.target.value)}
+                    className="text-sm px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+                  >
+                    <SubmittalCategoryOptions categories={submittalCategories} />
+                  </select>
+                  <button
+                    onClick={() => handleDeleteTag(tag)}
+                    aria-label={'Delete tag ' + tag.name}
+                    className="p-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">New Tag</label>
+              <input
+                type="text"
+                value={newTagName}
+                onChange={(e) => setNewTagName(e.target.value)}
+                placeholder="e.g. Fire Assembly 10"
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">Checks Submittal Category</label>
+              <select
+                value={newTagSubmittalCategory}
+                onChange={(e) => setNewTagSubmittalCategory(e.target.value)}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+              >
+                <SubmittalCategoryOptions categories={submittalCategories} />
+              </select>
+            </div>
+            <button
+              onClick={handleCreateTag}
+              className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add Tag
+            </button>
+          </div>
+        </div>
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <DocumentCategory
-            title="Structural Floor Documents"
-            icon="🏗️"
-            color="green"
-            documents={structuralFloorDocs}
-            loading={loading}
-            editingDoc={editingDoc}
-            editForm={editForm}
-            onEdit={handleEditDocument}
-            onSave={handleSaveEdit}
-            onCancel={handleCancelEdit}
-            onDelete={handleDeleteDocument}
-            onEditFormChange={setEditForm}
-          />
-
-          <DocumentCategory
-            title="Underlayment Documents"
-            icon="📋"
-            color="purple"
-            documents={underlaymentDocs}
-            loading={loading}
-            editingDoc={editingDoc}
-            editForm={editForm}
-            onEdit={handleEditDocument}
-            onSave={handleSaveEdit}
-            onCancel={handleCancelEdit}
-            onDelete={handleDeleteDocument}
-            onEditFormChange={setEditForm}
-          />
+          {products.map((product, index) => (
+            <DocumentCategory
+              key={product.id}
+              title={product.name + ' Documents'}
+              icon={index % 2 === 0 ? '🏗️' : '📋'}
+              color={index % 2 === 0 ? 'green' : 'purple'}
+              documents={documents.filter((doc) => doc.productType === product.id)}
+              tags={tags}
+              loading={loading}
+              editingDoc={editingDoc}
+              editForm={editForm}
+              onEdit={handleEditDocument}
+              onSave={handleSaveEdit}
+              onCancel={handleCancelEdit}
+              onDelete={handleDeleteDocument}
+              onEditFormChange={setEditForm}
+            />
+          ))}
         </div>
       </div>
     </div>
   )
 }
 
+function SubmittalCategoryOptions({ categories }: { categories: SubmittalCategory[] }) {
+  return (
+    <>
+      <option value="">No submittal category</option>
+      {categories.map((category) => (
+        <option key={category.id} value={category.id}>{category.label}</option>
+      ))}
+    </>
+  )
+}
+
 interface DocumentCategoryProps {
   title: string
   icon: string
   color: 'green' | 'purple'
   documents: Document[]
+  tags: DocumentTag[]
   loading: boolean
   editingDoc: string | null
   editForm: Partial<Document>
@@ -317,6 +460,7 @@ function DocumentCategory({
   icon,
   color,
   documents,
+  tags,
   loading,
   editingDoc,
   editForm,
@@ -340,6 +484,15 @@ function DocumentCategory({
   }
 
   const colors = colorClasses[color]
+  const tagNames = new Map(tags.map((tag) => [tag.id, tag.name]))
+
+  const toggleTag = (tagId: string) => {
+    const current = editForm.tags || []
+    onEditFormChange({
+      ...editForm,
+      tags: current.includes(tagId) ? current.filter((id) => id !== tagId) : [...current, tagId]
+    })
+  }
 
   return (
     <div className="glass-card dark:glass-card-dark p-6">
@@ -412,6 +565,34 @@ function DocumentCategory({
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
                     />
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1 text-gray-700 dark:text-gray-300">Tags</label>
+                    {tags.length === 0 ? (
+                      <p className="text-sm text-gray-500">Add tags under Document Tags first</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {tags.map((tag) => {
+                          const active = editForm.tags?.includes(tag.id) ?? false
+                          return (
+                            <button
+                              key={tag.id}
+                              type="button"
+                              aria-pressed={active}
+                              onClick={() => toggleTag(tag.id)}
+                              className={
+                                'px-2 py-1 text-xs rounded border transition-colors ' +
+                                (active
+                                  ? colors.bg + ' ' + colors.text + ' ' + colors.border
+                                  : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400')
+                              }
+                            >
+                              {tag.name}
+                            </button>
+                          )
+                        })}
+                      </div>
+                    )}
+                  </div>
                   <div className="flex gap-2">
                     <button onClick={onSave} className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors">
                       <Save className="inline-block w-4 h-4 mr-2" />
@@ -435,6 +616,16 @@ function DocumentCategory({
                         <span>{(doc.size / 1024 / 1024).toFixed(2)} MB</span>
                         <span className="truncate max-w-xs">{doc.filename}</span>
                       </div>
+                      {doc.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {doc.tags.map((tagId) => (
+                            <span key={tagId} className="inline-flex items-center gap-1 px-2 py-0.5 text-xs border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 rounded">
+                              <Tag className="w-3 h-3" />
+                              {tagNames.get(tagId) || tagId}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div className="flex gap-2">
@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState } from 'react'
+import { ChevronLeft, ChevronRight, X } from 'lucide-react'
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+import { isRenderCancelled, openPreviewDocument, renderPreviewPage } from '@/services/pdfPreview'
+import type { PacketReportSection } from '@/types'
+
+const THUMBNAIL_WIDTH = 96
+const MAX_PAGE_WIDTH = 800
+
+interface PageCanvasProps {
+  pdf: PDFDocumentProxy
+  pageNumber: number
+  width: number
+  lazy?: boolean // Wait until the canvas scrolls into view, for thumbnails
+}
+
+function PageCanvas({ pdf, pageNumber, width, lazy = false }: PageCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [visible, setVisible] = useState(!lazy)
+
+  useEffect(() => {
+    if (visible || !containerRef.current) return
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) setVisible(true)
+      },
+      { rootMargin: '200px' }
+    )
+    observer.observe(containerRef.current)
+    return () => observer.disconnect()
+  }, [visible])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!visible || !canvas) return
+
+    let cancelled = false
+    let task: RenderTask | null = null
+    pdf
+      .getPage(pageNumber)
+      .then(page => {
+        if (cancelled) return
+        task = renderPreviewPage(page, canvas, width)
+        return task.promise
+      })
+      .catch(error => {
+        if (!isRenderCancelled(error)) console.error(`Error rendering page ${pageNumber}:`, error)
+      })
+
+    return () => {
+      cancelled = true
+      task?.cancel()
+    }
+  }, [pdf, pageNumber, width, visible])
+
+  // Until a thumbnail is drawn it keeps the height of a portrait page
+  return (
+    <div ref={containerRef} style={{ width, minHeight: visible ? undefined : width * 1.3 }}>
+      <canvas ref={canvasRef} className="bg-white shadow-md" />
+    </div>
+  )
+}
+
+interface PacketPreviewProps {
+  bytes: Uint8Array
+  sections: PacketReportSection[]
+  onClose: () => void
+}
+
+export default function PacketPreview({ bytes, sections, onClose }: PacketPreviewProps) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [currentPage, setCurrentPage] = useState(1)
+  const [pageWidth, setPageWidth] = useState(MAX_PAGE_WIDTH)
+  const mainViewRef = useRef<HTMLDivElement>(null)
+  const thumbnailRefs = useRef<Map<number, HTMLButtonElement>>(new Map())
+
+  useEffect(() => {
+    let loaded: PDFDocumentProxy | null = null
+    let cancelled = false
+    setPdf(null)
+    setError(null)
+    setCurrentPage(1)
+
+    openPreviewDocument(bytes)
+      .then(document => {
+        loaded = document
+        if (cancelled) {
+          document.destroy()
+        } else {
+          setPdf(document)
+        }
+      })
+      .catch(err => {
+        console.error('Error opening packet preview:', err)
+        if (!cancelled) setError('The preview could not be opened. You can still download the packet.')
+      })
+
+    return () => {
+      cancelled = true
+      loaded?.destroy()
+    }
+  }, [bytes])
+
+  // The page fills the main view, up to a comfortable reading width
+  useEffect(() => {
+    const mainView = mainViewRef.current
+    if (!mainView) return
+    const observer = new ResizeObserver(([entry]) => {
+      setPageWidth(Math.max(200, Math.min(MAX_PAGE_WIDTH, Math.floor(entry.contentRect.width) - 32)))
+    })
+    observer.observe(mainView)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    thumbnailRefs.current.get(currentPage)?.scrollIntoView({ block: 'nearest', inline: 'nearest' })
+  }, [currentPage])
+
+  const pageCount = pdf?.numPages ?? 0
+  const goToPage = (page: number) => setCurrentPage(Math.min(Math.max(page, 1), Math.max(pageCount, 1)))
+  const currentSection = [...sections].reverse().find(section => section.startPage <= currentPage)
+
+  return (
+    <div className="p-6 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h4 className="text-lg font-medium text-gray-900 dark:text-white">Packet Preview</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            aria-label="Jump to section"
+            value={currentSection?.startPage ?? ''}
+            onChange={(e) => goToPage(Number(e.target.value))}
+            disabled={!pdf}
+            className="form-input bg-white dark:bg-gray-700 text-sm max-w-xs"
+          >
+            {sections.map((section, index) => (
+              <option key={index} value={section.startPage}>
+                {section.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => goToPage(currentPage - 1)}
+            disabled={!pdf || currentPage <= 1}
+            className="btn btn-outline btn-sm disabled:opacity-50"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+            {pdf ? `Page ${currentPage} of ${pageCount}` : 'Loading...'}
+          </span>
+          <button
+            type="button"
+            onClick={() => goToPage(currentPage + 1)}
+            disabled={!pdf || currentPage >= pageCount}
+            className="btn btn-outline btn-sm disabled:opacity-50"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button type="button" onClick={onClose} className="btn btn-ghost btn-sm" aria-label="Close preview">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-500 text-sm mb-4">{error}</p>}
+
+      <div className="flex flex-col-reverse md:flex-row gap-4">
+        <div className="flex md:flex-col gap-3 overflow-auto md:max-h-[70vh] pb-2 md:pb-0 md:pr-2 shrink-0">
+          {pdf &&
+            Array.from({ length: pageCount }, (_, index) => index + 1).map(page => (
+              <button
+                key={page}
+                type="button"
+                ref={(element) => {
+                  if (element) thumbnailRefs.current.set(page, element)
+                  else thumbnailRefs.current.delete(page)
+                }}
+                onClick={() => goToPage(page)}
+                className={`shrink-0 flex flex-col items-center gap-1 p-1 rounded border-2 ${
+                  page === currentPage ? 'border-primary-500' : 'border-transparent'
+                }`}
+              >
+                <PageCanvas pdf={pdf} pageNumber={page} width={THUMBNAIL_WIDTH} lazy />
+                <span className="text-xs text-gray-600 dark:text-gray-400">{page}</span>
+              </button>
+            ))}
+        </div>
+
+        <div
+          ref={mainViewRef}
+          className="flex-1 flex justify-center overflow-auto max-h-[70vh] bg-gray-200 dark:bg-gray-900 rounded-lg p-4"
+        >
+          {pdf && <PageCanvas pdf={pdf} pageNumber={currentPage} width={pageWidth} />}
+        </div>
+      </div>
+    </div>
+  )
+}
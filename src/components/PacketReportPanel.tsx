@@ -0,0 +1,78 @@
+import type { PacketReport } from '@/types'
+
+interface PacketReportPanelProps {
+  report: PacketReport
+  refusal?: string // Set when strict mode refused to produce the packet
+}
+
+export default function PacketReportPanel({ report, refusal }: PacketReportPanelProps) {
+  const hasErrors = report.errorPageCount > 0
+
+  return (
+    <div className="p-6 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <h4 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Generation Report</h4>
+
+      {refusal ? (
+        <p className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm">
+          No packet was produced: {refusal}. Fix the documents below or turn off strict mode.
+        </p>
+      ) : hasErrors ? (
+        <p className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm">
+          This packet contains {report.errorPageCount} error page{report.errorPageCount === 1 ? '' : 's'} in
+          place of content. Check it before sending it out.
+        </p>
+      ) : (
+        <p className="mb-4 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 text-sm">
+          All documents were merged: {report.pageCount} pages.
+        </p>
+      )}
+
+      {report.failedDocuments.length > 0 && (
+        <div className="mb-4">
+          <h5 className="text-sm font-semibold text-red-700 dark:text-red-300 mb-1">Failed Documents</h5>
+          <ul className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+            {report.failedDocuments.map((failed, index) => (
+              <li key={index}>
+                <span className="font-medium">{failed.name}</span>: {failed.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.warnings.length > 0 && (
+        <div className="mb-4">
+          <h5 className="text-sm font-semibold text-amber-700 dark:text-amber-300 mb-1">Warnings</h5>
+          <ul className="list-disc list-inside space-y-1 text-sm text-gray-700 dark:text-gray-300">
+            {report.warnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <h5 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">Sections</h5>
+      <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400">
+            <th className="font-medium py-1">Section</th>
+            <th className="font-medium py-1 text-right">Starts on</th>
+            <th className="font-medium py-1 text-right">Pages</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.sections.map((section, index) => (
+            <tr key={index} className="border-t border-gray-200 dark:border-gray-700">
+              <td className="py-1 pr-4">
+                {section.name}
+                {section.errorPage && <span className="text-red-600 dark:text-red-400"> (error page)</span>}
+              </td>
+              <td className="py-1 text-right">{section.startPage}</td>
+              <td className="py-1 text-right">{section.pageCount}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
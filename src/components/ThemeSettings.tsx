@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ArrowLeft, RotateCcw, Save } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { themeService } from '@/services/themeService'
+import { defaultPacketTheme } from '@/data/packetTheme'
+import type { PacketTheme } from '@/types'
+
+const COLOR_LABELS: Record<keyof PacketTheme['colors'], string> = {
+  accent: 'Accent',
+  headerBackground: 'Header Background',
+  headerText: 'Header Text',
+  title: 'Page Title',
+  heading: 'Headings',
+  text: 'Body Text',
+  secondaryText: 'Secondary Text',
+  mutedText: 'Muted Text',
+  fieldFill: 'Field Fill',
+  fieldBorder: 'Field Border',
+  error: 'Error',
+  errorText: 'Error Text'
+}
+
+const inputClassName =
+  'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white'
+const labelClassName = 'block text-sm font-medium mb-2 text-gray-700 dark:text-gray-300'
+
+export default function ThemeSettings() {
+  const navigate = useNavigate()
+  const [theme, setTheme] = useState<PacketTheme | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    themeService.getTheme().then(setTheme)
+  }, [])
+
+  if (!theme) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-gray-600 dark:text-gray-400">
+        Loading theme...
+      </div>
+    )
+  }
+
+  const updateTheme = (updates: Partial<PacketTheme>) => setTheme({ ...theme, ...updates })
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const footerLines = theme.footerLines.map((line) => line.trim()).filter(Boolean)
+      await themeService.saveTheme({ ...theme, footerLines })
+      setTheme({ ...theme, footerLines })
+      toast.success('Packet theme saved')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save theme')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 p-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Packet Theme</h1>
+            <p className="text-gray-600 dark:text-gray-400">Branding used on every generated packet page</p>
+          </div>
+          <button
+            onClick={() => navigate('/admin/dashboard')}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors flex items-center gap-2"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            Documents
+          </button>
+        </div>
+
+        <div className="glass-card dark:glass-card-dark p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">Colors</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {(Object.keys(COLOR_LABELS) as Array<keyof PacketTheme['colors']>).map((key) => (
+              <div key={key}>
+                <label htmlFor={'color-' + key} className={labelClassName}>{COLOR_LABELS[key]}</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={theme.colors[key]}
+                    onChange={(e) => updateTheme({ colors: { ...theme.colors, [key]: e.target.value } })}
+                    className="h-10 w-12 rounded border border-gray-300 dark:border-gray-600 cursor-pointer"
+                  />
+                  <input
+                    id={'color-' + key}
+                    type="text"
+                    value={theme.colors[key]}
+                    onChange={(e) => updateTheme({ colors: { ...theme.colors, [key]: e.target.value } })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="glass-card dark:glass-card-dark p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">Logo &amp; Fonts</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="logoImageUrl" className={labelClassName}>Logo Image URL (PNG or JPEG)</label>
+              <input
+                id="logoImageUrl"
+                type="text"
+                value={theme.logo.imageUrl}
+                onChange={(e) => updateTheme({ logo: { ...theme.logo, imageUrl: e.target.value } })}
+                placeholder="Leave blank to use the logo text"
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Drawn on the header bar, so use a light version of the artwork.</p>
+            </div>
+            <div>
+              <label htmlFor="logoText" className={labelClassName}>Logo Text</label>
+              <input
+                id="logoText"
+                type="text"
+                value={theme.logo.text}
+                onChange={(e) => updateTheme({ logo: { ...theme.logo, text: e.target.value } })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="regularFontUrl" className={labelClassName}>Regular Font URL (TTF or OTF)</label>
+              <input
+                id="regularFontUrl"
+                type="text"
+                value={theme.fonts.regularUrl}
+                onChange={(e) => updateTheme({ fonts: { ...theme.fonts, regularUrl: e.target.value } })}
+                placeholder="Leave blank to use the bundled fonts"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="boldFontUrl" className={labelClassName}>Bold Font URL (TTF or OTF)</label>
+              <input
+                id="boldFontUrl"
+                type="text"
+                value={theme.fonts.boldUrl}
+                onChange={(e) => updateTheme({ fonts: { ...theme.fonts, boldUrl: e.target.value } })}
+                placeholder="Leave blank to use the regular font"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="glass-card dark:glass-card-dark p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">Submittal Form Footer</h2>
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="footerLines" className={labelClassName}>Footer Lines</label>
+              <textarea
+                id="footerLines"
+                rows={5}
+                value={theme.footerLines.join('\n')}
+                onChange={(e) => updateTheme({ footerLines: e.target.value.split('\n') })}
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">One line each. The first line is printed in bold.</p>
+            </div>
+            <div>
+              <label htmlFor="version" className={labelClassName}>Version</label>
+              <input
+                id="version"
+                type="text"
+                value={theme.version}
+                onChange={(e) => updateTheme({ version: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-4">
+          <button
+            onClick={() => setTheme(defaultPacketTheme)}
+            disabled={saving}
+            className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors flex items-center gap-2"
+          >
+            <RotateCcw className="w-5 h-5" />
+            Reset to Defaults
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Save className="w-5 h-5" />
+            {saving ? 'Saving...' : 'Save Theme'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
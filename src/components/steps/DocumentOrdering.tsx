@@ -481,7 +481,7 @@ export default function DocumentOrdering({
             <div className="text-center py-8">
               <p className="text-gray-500 dark:text-gray-400">
                 {formData.productType
-                  ? `No documents available for ${formData.productType === 'structural-floor' ? 'Structural Floor Panel' : 'Underlayment'}.`
+                  ? 'No documents available for the selected product.'
                   : 'No documents found.'}
               </p>
             </div>
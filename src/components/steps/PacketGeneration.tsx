@@ -1,8 +1,13 @@
+import { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { pdfService } from '@/services/pdfService';
-import { documentService } from '@/services/documentService';
-import type { SelectedDocument, ProjectFormData } from '@/types';
-import { cn, formatFileSize } from '@/utils';
+import { PacketGenerationError, pdfService } from '@/services/pdfService';
+import { packetBuildSession } from '@/services/packetBuildSession';
+import { documentTagService } from '@/services/documentTagService';
+import { productService } from '@/services/productService';
+import PacketPreview from '@/components/PacketPreview';
+import PacketReportPanel from '@/components/PacketReportPanel';
+import type { PacketProgress, PacketReport, SelectedDocument, ProjectFormData } from '@/types';
+import { cn, formatFileSize, formatPanelSize } from '@/utils';
 
 interface PacketGenerationProps {
   selectedDocuments: SelectedDocument[];
@@ -21,252 +26,144 @@ const PacketGeneration = ({
   onSetGenerating,
   formData
 }: PacketGenerationProps) => {
+  // Progress of the packet being generated, and how to cancel it
+  const [progress, setProgress] = useState<PacketProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const progressPercent = progress ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  // Leaving the step cancels a packet that is still being generated
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const startGeneration = () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setProgress(null);
+    return { onProgress: setProgress, signal: controller.signal };
+  };
+
+  const finishGeneration = () => {
+    abortControllerRef.current = null;
+    setProgress(null);
+    onSetGenerating(false);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // The last packet generated and its report, shown before the packet is downloaded.
+  // Strict mode refuses packets with error pages; the refusal comes with the report.
+  const [strictMode, setStrictMode] = useState(false);
+  const [packetBytes, setPacketBytes] = useState<Uint8Array | null>(null);
+  const [report, setReport] = useState<PacketReport | null>(null);
+  const [refusal, setRefusal] = useState<string | undefined>();
+  // The preview renders the same bytes that are downloaded
+  const [showPreview, setShowPreview] = useState(false);
+
+  // A failed build leaves nothing to preview or download, not even the packet
+  // built before it, which no longer matches what was asked for
+  const clearPacket = () => {
+    setPacketBytes(null);
+    setShowPreview(false);
+    setReport(null);
+    setRefusal(undefined);
+  };
+
+  // Returns true when the error was a strict mode refusal, now shown with its report
+  const showRefusal = (error: unknown) => {
+    if (!(error instanceof PacketGenerationError)) return false;
+    setReport(error.report);
+    setRefusal(error.message);
+    return true;
+  };
+
+  const handleDownload = async () => {
+    if (!packetBytes) return;
+    await pdfService.downloadPDF(packetBytes, `${formData.projectName || 'Untitled'}_Packet.pdf`);
+    onNext();
+  };
+
   // Calculate total size
   const totalSize = selectedDocuments.filter(doc => doc.selected).reduce((sum, doc) => sum + (doc.document.size || 0), 0);
   const sortedDocs = selectedDocuments.filter(doc => doc.selected).sort((a, b) => a.order - b.order);
 
-  // Helper function to map selected documents to submittalType checkboxes
-  const getSubmittalTypeFromDocuments = () => {
-    const submittalType = {
-      tds: false,
-      threePartSpecs: false,
-      testReportIccEsr5194: false,
-      testReportIccEsr5192: false,
-      testReportIccEsl1645: false,
-      fireAssembly: false,
-      fireAssembly01: false,
-      fireAssembly02: false,
-      fireAssembly03: false,
-      fireAssembly04: false,
-      fireAssembly05: false,
-      fireAssembly06: false,
-      fireAssembly07: false,
-      fireAssembly08: false,
-      fireAssembly09: false,
-      msds: false,
-      leedGuide: false,
-      installationGuide: false,
-      warranty: false,
-      samples: false,
-      other: false,
-    };
-
-    // Populate submittalType based on selected documents
-    sortedDocs.forEach(doc => {
-      const docName = doc.document.name.toLowerCase();
-      const docType = doc.document.type.toLowerCase();
-      
-      if (docName.includes('technical data sheet') || docType === 'tds') {
-        submittalType.tds = true;
-      }
-      if (docName.includes('3-part spec') || docType === 'partspec') {
-        submittalType.threePartSpecs = true;
-      }
-      if (docName.includes('esr-5194') || docName.includes('esr 5194')) {
-        submittalType.testReportIccEsr5194 = true;
-      }
-      if (docName.includes('esr-5192') || docName.includes('esr 5192')) {
-        submittalType.testReportIccEsr5192 = true;
-      }
-      if (docName.includes('esl-1645') || docName.includes('esl 1645') || docName.includes('acoustical')) {
-        submittalType.testReportIccEsl1645 = true;
-      }
-      if (docName.includes('fire assembly 01')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly01 = true;
-      }
-      if (docName.includes('fire assembly 02')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly02 = true;
-      }
-      if (docName.includes('fire assembly 03')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly03 = true;
-      }
-      if (docName.includes('fire assembly 04')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly04 = true;
-      }
-      if (docName.includes('fire assembly 05')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly05 = true;
-      }
-      if (docName.includes('fire assembly 06')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly06 = true;
-      }
-      if (docName.includes('fire assembly 07')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly07 = true;
-      }
-      if (docName.includes('fire assembly 08')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly08 = true;
-      }
-      if (docName.includes('fire assembly 09')) {
-        submittalType.fireAssembly = true;
-        submittalType.fireAssembly09 = true;
-      }
-      if (docName.includes('msds') || docName.includes('material safety') || docType === 'msds') {
-        submittalType.msds = true;
-      }
-      if (docName.includes('leed') || docType === 'leed') {
-        submittalType.leedGuide = true;
-      }
-      if (docName.includes('installation') || docType === 'installation') {
-        submittalType.installationGuide = true;
-      }
-      if (docName.includes('warranty') || docType === 'warranty') {
-        submittalType.warranty = true;
-      }
-    });
-
-    return submittalType;
+  // Ensure all formData fields are provided, using empty strings or defaults.
+  // The product has no default: the packet is built for one from the catalog.
+  const prepareFormData = async (): Promise<ProjectFormData> => {
+    const product = formData.productType ? await productService.getProduct(formData.productType) : null;
+    if (!product) {
+      throw new Error('Select a product before generating the packet');
+    }
+    return {
+      productType: product.id,
+      projectName: formData.projectName || 'Untitled',
+      submittedTo: formData.submittedTo || '',
+      preparedBy: formData.preparedBy || '',
+      emailAddress: formData.emailAddress || '',
+      phoneNumber: formData.phoneNumber || '',
+      date: formData.date || new Date().toLocaleDateString(),
+      projectNumber: formData.projectNumber || '',
+      productSize: formData.productSize || formatPanelSize(product.thicknesses[0] ?? '', formData.paperSize === 'a4'),
+      csiSectionOverride: formData.csiSectionOverride,
+      pageStamp: formData.pageStamp,
+      pageNumbering: formData.pageNumbering,
+      pageSizeMode: formData.pageSizeMode,
+      paperSize: formData.paperSize,
+      status: formData.status || {
+        forReview: false,
+        forApproval: false,
+        forRecord: false,
+        forInformationOnly: false,
+      },
+      // Boxes checked on the form, plus those of the tags admins put on the selected documents
+      submittalCategories: Array.from(new Set([
+        ...(formData.submittalCategories || []),
+        ...(await documentTagService.getSubmittalCategories(sortedDocs.map(doc => doc.document))),
+      ])),
+    } as ProjectFormData;
   };
 
-  const handleGenerate = async () => {
-    console.log('Generate Packet button clicked');
-    if (isGenerating) return;
+  // Preview and download share one build; the session reuses it until something is edited.
+  // Resolves to false when the build was cancelled, refused or failed.
+  const buildPacket = async () => {
     onSetGenerating(true);
+    const generation = startGeneration();
     try {
-      // Fetch all available documents for the product type
-      const availableDocuments = await documentService.getDocumentsByProductType(
-        formData.productType || 'structural-floor'
-      );
-
-      // Ensure all formData fields are provided, using empty strings or defaults
-      const preparedFormData = {
-        productType: formData.productType || 'structural-floor',
-        projectName: formData.projectName || 'Untitled',
-        submittedTo: formData.submittedTo || '',
-        preparedBy: formData.preparedBy || '',
-        emailAddress: formData.emailAddress || '',
-        phoneNumber: formData.phoneNumber || '',
-        date: formData.date || new Date().toLocaleDateString(),
-        projectNumber: formData.projectNumber || '',
-        productSize: formData.productSize || '3/4-in (20mm)',
-        status: formData.status || {
-          forReview: false,
-          forApproval: false,
-          forRecord: false,
-          forInformationOnly: false,
-        },
-        submittalType: getSubmittalTypeFromDocuments(),
-      } as ProjectFormData;
-
+      const preparedFormData = await prepareFormData();
       console.log('Prepared form data for PDF:', preparedFormData);
-      console.log('Available documents for PDF:', availableDocuments);
-      const pdfBytes = await pdfService.generatePacket(preparedFormData, sortedDocs, availableDocuments);
-      await pdfService.downloadPDF(pdfBytes, `${formData.projectName || 'Untitled'}_Packet.pdf`);
-      onNext();
+      const result = await packetBuildSession.build(
+        { formData: preparedFormData, selectedDocuments: sortedDocs, strict: strictMode },
+        generation
+      );
+      setPacketBytes(result.bytes);
+      setReport(result.report);
+      setRefusal(undefined);
+      return true;
     } catch (error) {
+      clearPacket();
+      if (generation.signal.aborted) {
+        console.log('Packet generation cancelled');
+        return false;
+      }
+      if (showRefusal(error)) return false;
       console.error('Error generating PDF:', error);
       alert('Failed to generate PDF packet: ' + (error as Error).message);
+      return false;
     } finally {
-      onSetGenerating(false);
+      finishGeneration();
     }
   };
 
+  const handleGenerate = async () => {
+    console.log('Generate Packet button clicked');
+    if (isGenerating) return;
+    await buildPacket();
+  };
+
   const handlePreview = async () => {
     console.log('Preview Packet button clicked');
     if (isGenerating) return;
-    onSetGenerating(true);
-    try {
-      // Fetch all available documents for the product type
-      const availableDocuments = await documentService.getDocumentsByProductType(
-        formData.productType || 'structural-floor'
-      );
-
-      const preparedFormData = {
-        productType: formData.productType || 'structural-floor',
-        projectName: formData.projectName || 'Untitled',
-        submittedTo: formData.submittedTo || '',
-        preparedBy: formData.preparedBy || '',
-        emailAddress: formData.emailAddress || '',
-        phoneNumber: formData.phoneNumber || '',
-        date: formData.date || new Date().toLocaleDateString(),
-        projectNumber: formData.projectNumber || '',
-        productSize: formData.productSize || '3/4-in (20mm)',
-        status: formData.status || {
-          forReview: false,
-          forApproval: false,
-          forRecord: false,
-          forInformationOnly: false,
-        },
-        submittalType: getSubmittalTypeFromDocuments(),
-      } as ProjectFormData;
-
-      console.log('Prepared form data for preview:', preparedFormData);
-      console.log('Available documents for preview:', availableDocuments);
-      const pdfBytes = await pdfService.generatePacket(preparedFormData, sortedDocs, availableDocuments);
-
-      // Create a blob URL for the PDF
-      const blob = new Blob([pdfBytes], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
-
-      // Open the PDF in a new tab
-      const newWindow = window.open('', '_blank');
-      if (newWindow) {
-        newWindow.document.write(`
-          <!DOCTYPE html>
-          <html>
-            <head>
-              <title>PDF Preview - ${formData.projectName || 'Document Packet'}</title>
-              <style>
-                body, html {
-                  margin: 0;
-                  padding: 0;
-                  height: 100%;
-                  overflow: hidden;
-                  background-color: #525252;
-                }
-                iframe {
-                  width: 100%;
-                  height: 100%;
-                  border: none;
-                }
-                .toolbar {
-                  padding: 10px;
-                  background: #333;
-                  color: white;
-                  display: flex;
-                  justify-content: space-between;
-                  align-items: center;
-                }
-                .close-btn {
-                  background: #ff4444;
-                  color: white;
-                  border: none;
-                  padding: 5px 15px;
-                  border-radius: 4px;
-                  cursor: pointer;
-                }
-                .close-btn:hover {
-                  background: #cc0000;
-                }
-              </style>
-            </head>
-            <body>
-              <div class="toolbar">
-                <div>${formData.projectName || 'Document Preview'}</div>
-                <button class="close-btn" onclick="window.close()">Close</button>
-              </div>
-              <iframe src="${url}"></iframe>
-            </body>
-          </html>
-        `);
-        newWindow.document.close();
-      } else {
-        // Fallback to download if popup is blocked
-        alert('Popup was blocked. Please allow popups for this site to view the preview.');
-        await pdfService.downloadPDF(pdfBytes, `${formData.projectName || 'preview'}_packet.pdf`);
-      }
-    } catch (error) {
-      console.error('Error generating PDF for preview:', error);
-      alert('Failed to generate PDF preview: ' + (error as Error).message);
-    } finally {
-      onSetGenerating(false);
-    }
+    if (await buildPacket()) setShowPreview(true);
   };
 
   return (
@@ -312,6 +209,70 @@ const PacketGeneration = ({
           </div>
         </div>
 
+        <label className="flex items-center gap-3 mb-8 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={strictMode}
+            onChange={(e) => setStrictMode(e.target.checked)}
+            disabled={isGenerating}
+            className="w-5 h-5 text-primary-500 border-gray-300 rounded focus:ring-primary-500"
+          />
+          <span className="text-sm text-secondary-800 dark:text-gray-300">
+            Strict mode: don&apos;t produce a packet if any part of it fails
+          </span>
+        </label>
+
+        {showPreview && packetBytes && report && !isGenerating && (
+          <div className="mb-8">
+            <PacketPreview bytes={packetBytes} sections={report.sections} onClose={() => setShowPreview(false)} />
+          </div>
+        )}
+
+        {report && !isGenerating && (
+          <div className="mb-8">
+            <PacketReportPanel report={report} refusal={refusal} />
+            {packetBytes && (
+              <div className="flex justify-end gap-2 mt-4">
+                {!showPreview && (
+                  <motion.button
+                    onClick={() => setShowPreview(true)}
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    className="btn btn-outline btn-lg"
+                  >
+                    Preview
+                  </motion.button>
+                )}
+                <motion.button
+                  onClick={handleDownload}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  className="btn btn-primary btn-lg"
+                >
+                  Download Packet
+                </motion.button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {isGenerating && (
+          <div className="mb-8" role="status" aria-live="polite">
+            <div className="flex items-center justify-between mb-2 gap-4">
+              <span className="text-sm text-gray-600 dark:text-gray-400 truncate">{progress?.message || 'Preparing packet...'}</span>
+              <span className="text-sm font-medium text-gray-900 dark:text-white">{progressPercent}%</span>
+            </div>
+            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+              <div className="bg-primary-600 h-2 rounded-full transition-all duration-300" style={{ width: progressPercent + '%' }} />
+            </div>
+            <div className="flex justify-end mt-3">
+              <button type="button" onClick={handleCancel} className="btn btn-outline btn-sm">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="flex justify-between pt-8 border-t border-gray-200 dark:border-gray-700 gap-2">
           <motion.button onClick={() => { console.log('Navigating back to arrangement'); onPrevious(); }} whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }} className="btn btn-outline btn-lg">Back to Arrangement</motion.button>
           <motion.button 
@@ -336,7 +297,7 @@ const PacketGeneration = ({
               'btn btn-primary btn-lg min-w-24', 
               (isGenerating || sortedDocs.length === 0) && 'opacity-50 cursor-not-allowed'
             )}
-            title={sortedDocs.length === 0 ? 'Please select at least one document' : 'Download the generated PDF packet'}
+            title={sortedDocs.length === 0 ? 'Please select at least one document' : 'Generate the PDF packet and review its report'}
           >
             {isGenerating ? 'Generating...' : 'Generate Packet'}
           </motion.button>
@@ -1,8 +1,9 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { CheckCircleIcon } from '@heroicons/react/24/outline';
 import { cn } from '@/utils';
-import type { ProductType } from '@/types';
+import { productService } from '@/services/productService';
+import type { Product, ProductType } from '@/types';
 
 interface ProductSelectionProps {
   productType?: ProductType;
@@ -16,6 +17,14 @@ export default function ProductSelection({
   onNext,
 }: ProductSelectionProps) {
   const [selectedProduct, setSelectedProduct] = useState<ProductType | undefined>(initialProductType);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    productService.getProducts()
+      .then(setProducts)
+      .finally(() => setLoading(false));
+  }, []);
 
   const handleProductSelect = (product: ProductType) => {
     setSelectedProduct(product);
@@ -28,19 +37,6 @@ export default function ProductSelection({
     }
   };
 
-  const products = [
-    {
-      id: 'structural-floor' as ProductType,
-      name: 'Structural Floor Panel',
-      description: 'MAXTERRA® MgO Non-Combustible Structural Floor Panels',
-    },
-    {
-      id: 'underlayment' as ProductType,
-      name: 'Underlayment Panel',
-      description: 'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels',
-    },
-  ];
-
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -60,6 +56,11 @@ export default function ProductSelection({
         </div>
 
         {/* Product Cards */}
+        {!loading && products.length === 0 && (
+          <p className="text-center text-secondary-700 dark:text-gray-400 mb-8">
+            No products are available. Please try again later.
+          </p>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-5xl mx-auto mb-8">
           {products.map((product) => {
             const isSelected = selectedProduct === product.id;
@@ -100,7 +101,7 @@ export default function ProductSelection({
                     {product.name}
                   </h3>
                   <p className="text-sm text-secondary-700 dark:text-gray-400">
-                    {product.description}
+                    {product.fullName}
                   </p>
                 </div>
               </motion.button>
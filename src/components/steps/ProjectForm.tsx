@@ -1,7 +1,12 @@
-import { useState, useMemo } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { cn } from '@/utils';
-import type { ProjectFormData, ProductType } from '@/types';
+import { cn, formatPanelSize } from '@/utils';
+import { productService } from '@/services/productService';
+import { defaultPageNumbering, pageClassLabels } from '@/data/pageNumbering';
+import { defaultPaperSize, paperSizeLabels, paperSizeNames } from '@/data/paperSizes';
+import { groupSubmittalCategories } from '@/utils/submittalCategories';
+import type { SubmittalCategoryGroup } from '@/utils/submittalCategories';
+import type { PageClass, PageNumberingOptions, PageSizeMode, PageStampOptions, PaperSize, ProjectFormData, Product, SubmittalCategory } from '@/types';
 
 interface ProjectFormProps {
   formData: Partial<ProjectFormData>;
@@ -26,25 +31,50 @@ export default function ProjectForm({
   const [emailAddress, setEmailAddress] = useState(formData.emailAddress || '');
   const [phoneNumber, setPhoneNumber] = useState(formData.phoneNumber || '');
 
-  // Get product type from formData
-  const productType: ProductType = formData.productType || 'structural-floor';
+  // A4 packets are for metric projects and list panel sizes metric first
+  const [paperSize, setPaperSize] = useState<PaperSize>(formData.paperSize || defaultPaperSize);
+  const metricFirst = paperSize === 'a4';
 
-  // Determine available product sizes based on product type
-  const availableProductSizes = useMemo(() => {
-    if (productType === 'structural-floor') {
-      return ['3/4-in (20mm)'];
-    } else if (productType === 'underlayment') {
-      return ['1/2-in (12mm)', '5/8-in (16mm)'];
-    }
-    return ['3/4-in (20mm)'];
-  }, [productType]);
+  // Panel thicknesses come from the selected product in the catalog. The catalog
+  // value is kept here; the saved size is written in the packet's unit order.
+  const [product, setProduct] = useState<Product | null>(null);
+  const availableProductSizes = product?.thicknesses || [];
+  const [productSize, setProductSize] = useState(formData.productSize || '');
 
-  const [productSize, setProductSize] = useState(() => {
-    if (formData.productSize && availableProductSizes.includes(formData.productSize)) {
-      return formData.productSize;
-    }
-    return availableProductSizes[0];
-  });
+  useEffect(() => {
+    if (!formData.productType) return;
+    productService.getProduct(formData.productType).then(loaded => {
+      setProduct(loaded);
+      const sizes = loaded?.thicknesses || [];
+      setProductSize(current =>
+        sizes.find(size => size === current || formatPanelSize(size, true) === current) || sizes[0] || ''
+      );
+    });
+  }, [formData.productType]);
+
+  // Optional override for projects that spec the product under a different section
+  const [csiNumber, setCsiNumber] = useState(formData.csiSectionOverride?.number || '');
+  const [csiTitle, setCsiTitle] = useState(formData.csiSectionOverride?.title || '');
+
+  // Optional running header/footer on the pages of the merged documents
+  const [stampEnabled, setStampEnabled] = useState(formData.pageStamp?.enabled || false);
+  const [submittalNumber, setSubmittalNumber] = useState(formData.pageStamp?.submittalNumber || '');
+  const [stampBands, setStampBands] = useState<PageStampOptions['bands']>(formData.pageStamp?.bands || 'both');
+
+  // Manufacturer PDFs come in A4, Legal and 11x17 as well as Letter
+  const [pageSizeMode, setPageSizeMode] = useState<PageSizeMode>(formData.pageSizeMode || 'original');
+
+  // Which pages carry numbers and how they read
+  const [numbering, setNumbering] = useState<PageNumberingOptions>(formData.pageNumbering || defaultPageNumbering);
+
+  const toggleNumberedClass = (pageClass: PageClass, checked: boolean) => {
+    setNumbering(current => ({
+      ...current,
+      pageClasses: checked
+        ? [...current.pageClasses, pageClass]
+        : current.pageClasses.filter(c => c !== pageClass),
+    }));
+  };
 
   // Status checkboxes
   const [statusForReview, setStatusForReview] = useState(formData.status?.forReview || false);
@@ -52,7 +82,60 @@ export default function ProjectForm({
   const [statusForRecord, setStatusForRecord] = useState(formData.status?.forRecord || false);
   const [statusForInformationOnly, setStatusForInformationOnly] = useState(formData.status?.forInformationOnly || false);
 
-  // Removed submittal type checkboxes - documents will be selected in Step 3
+  // Submittal type checkboxes come from the product's checklist, grouped under its
+  // headers. Those of the documents chosen in the next step are checked when the
+  // packet is built.
+  const [submittalCategories, setSubmittalCategories] = useState<string[]>(formData.submittalCategories || []);
+  const [submittalCategoryText, setSubmittalCategoryText] = useState<Record<string, string>>(
+    formData.submittalCategoryText || {}
+  );
+  const submittalCategoryGroups = groupSubmittalCategories(product?.submittalCategories || []);
+
+  const toggleSubmittalCategory = (id: string, checked: boolean) => {
+    setSubmittalCategories(current => (checked ? [...current, id] : current.filter(c => c !== id)));
+  };
+
+  const renderSubmittalCategory = (category: SubmittalCategory) => (
+    <div key={category.id} className={cn('flex items-center gap-2', category.freeText && 'md:col-span-2')}>
+      <label className="flex items-center space-x-2 cursor-pointer shrink-0">
+        <input
+          type="checkbox"
+          checked={submittalCategories.includes(category.id)}
+          onChange={(e) => toggleSubmittalCategory(category.id, e.target.checked)}
+          className="w-5 h-5 text-primary-500 border-gray-300 rounded focus:ring-primary-500"
+        />
+        <span className="text-sm text-secondary-800 dark:text-gray-300">{category.label}</span>
+      </label>
+      {category.freeText && (
+        <input
+          type="text"
+          aria-label={category.label}
+          value={submittalCategoryText[category.id] || ''}
+          onChange={(e) => {
+            const value = e.target.value;
+            setSubmittalCategoryText(current => ({ ...current, [category.id]: value }));
+            // Entering text checks the box, as it does on the printed form
+            if (value.trim() && !submittalCategories.includes(category.id)) toggleSubmittalCategory(category.id, true);
+          }}
+          placeholder="Describe"
+          className="form-input bg-white dark:bg-gray-700 flex-1 py-1"
+        />
+      )}
+    </div>
+  );
+
+  // Groups nest to any depth, each level indented under its header
+  const renderSubmittalCategoryGroup = ({ category, children }: SubmittalCategoryGroup): React.ReactNode =>
+    children.length > 0 ? (
+      <div key={category.id} className="col-span-full">
+        <h4 className="text-sm font-semibold text-secondary-900 dark:text-white mt-2 mb-2">{category.label}</h4>
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2 ml-4">
+          {children.map(renderSubmittalCategoryGroup)}
+        </div>
+      </div>
+    ) : (
+      renderSubmittalCategory(category)
+    );
 
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
@@ -92,7 +175,23 @@ export default function ProjectForm({
         projectNumber,
         emailAddress,
         phoneNumber,
-        productSize,
+        productSize: formatPanelSize(productSize, metricFirst),
+        csiSectionOverride: csiNumber.trim() || csiTitle.trim()
+          ? { number: csiNumber.trim(), title: csiTitle.trim() }
+          : undefined,
+        pageStamp: {
+          enabled: stampEnabled,
+          submittalNumber: submittalNumber.trim(),
+          bands: stampBands,
+        },
+        pageNumbering: numbering,
+        pageSizeMode,
+        paperSize,
+        // Only categories of this product, in case the product was changed
+        submittalCategories: submittalCategories.filter(id =>
+          !product || product.submittalCategories.some(category => category.id === id)
+        ),
+        submittalCategoryText,
         status: {
           forReview: statusForReview,
           forApproval: statusForApproval,
@@ -306,6 +405,19 @@ export default function ProjectForm({
             )}
           </div>
 
+          {/* Submittal Type Section */}
+          {submittalCategoryGroups.length > 0 && (
+            <div className="bg-gray-50 dark:bg-secondary-900 p-6 rounded-lg border border-gray-200 dark:border-secondary-800">
+              <h3 className="text-lg font-semibold text-secondary-900 dark:text-white mb-1">Submittal Type</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                Boxes for the documents you choose in the next step are checked automatically. Check any others that apply.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                {submittalCategoryGroups.map(renderSubmittalCategoryGroup)}
+              </div>
+            </div>
+          )}
+
           {/* Product Size Selection */}
           <div className="bg-gray-50 dark:bg-secondary-900 p-6 rounded-lg border border-gray-200 dark:border-secondary-800">
             <h3 className="text-lg font-semibold text-secondary-900 dark:text-white mb-4">Product Size</h3>
@@ -321,15 +433,216 @@ export default function ProjectForm({
               >
                 {availableProductSizes.map((sizeOption) => (
                   <option key={sizeOption} value={sizeOption}>
-                    {sizeOption}
+                    {formatPanelSize(sizeOption, metricFirst)}
                   </option>
                 ))}
               </select>
+              {product && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {product.name}s are available in {availableProductSizes.map(size => formatPanelSize(size, metricFirst)).join(', ')} thickness
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Specification Section Override */}
+          <div className="bg-gray-50 dark:bg-secondary-900 p-6 rounded-lg border border-gray-200 dark:border-secondary-800">
+            <h3 className="text-lg font-semibold text-secondary-900 dark:text-white mb-1">Specification Section</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+              Optional. Leave blank to use the product&apos;s standard CSI section on every page header.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="flex flex-col gap-2">
+                <label htmlFor="csiNumber" className="form-label text-sm font-medium">
+                  Section Number
+                </label>
+                <input
+                  id="csiNumber"
+                  type="text"
+                  value={csiNumber}
+                  onChange={(e) => setCsiNumber(e.target.value)}
+                  placeholder={product?.csiSection.number || 'e.g. 06 16 23'}
+                  className="form-input bg-white dark:bg-gray-700"
+                />
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <label htmlFor="csiTitle" className="form-label text-sm font-medium">
+                  Section Title
+                </label>
+                <input
+                  id="csiTitle"
+                  type="text"
+                  value={csiTitle}
+                  onChange={(e) => setCsiTitle(e.target.value)}
+                  placeholder={product?.csiSection.title || 'Enter section title'}
+                  className="form-input bg-white dark:bg-gray-700"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Document Page Stamping */}
+          <div className="bg-gray-50 dark:bg-secondary-900 p-6 rounded-lg border border-gray-200 dark:border-secondary-800">
+            <h3 className="text-lg font-semibold text-secondary-900 dark:text-white mb-1">Document Page Stamping</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+              Optional. Prints the project name, submittal number and page number on every page of the attached documents:
+              the page numbering below when it includes document pages, otherwise &quot;Page X of Y&quot;.
+              Pages with content near the edges are scaled down slightly to make room.
+            </p>
+            <label className="flex items-center gap-3 cursor-pointer mb-4">
+              <input
+                type="checkbox"
+                checked={stampEnabled}
+                onChange={(e) => setStampEnabled(e.target.checked)}
+                className="w-5 h-5 text-primary-500 border-gray-300 rounded focus:ring-primary-500"
+              />
+              <span className="text-sm text-secondary-800 dark:text-gray-300">Stamp document pages</span>
+            </label>
+            {stampEnabled && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="flex flex-col gap-2">
+                  <label htmlFor="submittalNumber" className="form-label text-sm font-medium">
+                    Submittal Number
+                  </label>
+                  <input
+                    id="submittalNumber"
+                    type="text"
+                    value={submittalNumber}
+                    onChange={(e) => setSubmittalNumber(e.target.value)}
+                    placeholder="e.g. 06 16 23-001"
+                    className="form-input bg-white dark:bg-gray-700"
+                  />
+                </div>
+
+                <div className="flex flex-col gap-2">
+                  <label htmlFor="stampBands" className="form-label text-sm font-medium">
+                    Placement
+                  </label>
+                  <select
+                    id="stampBands"
+                    value={stampBands}
+                    onChange={(e) => setStampBands(e.target.value as PageStampOptions['bands'])}
+                    className="form-input bg-white dark:bg-gray-700"
+                  >
+                    <option value="both">Header and footer</option>
+                    <option value="header">Header only</option>
+                    <option value="footer">Footer only</option>
+                  </select>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Page Numbering */}
+          <div className="bg-gray-50 dark:bg-secondary-900 p-6 rounded-lg border border-gray-200 dark:border-secondary-800">
+            <h3 className="text-lg font-semibold text-secondary-900 dark:text-white mb-1">Page Numbering</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+              The table of contents refers to sections by the numbers chosen here.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              {(Object.keys(pageClassLabels) as PageClass[]).map((pageClass) => (
+                <label key={pageClass} className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={numbering.pageClasses.includes(pageClass)}
+                    onChange={(e) => toggleNumberedClass(pageClass, e.target.checked)}
+                    className="w-5 h-5 text-primary-500 border-gray-300 rounded focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-secondary-800 dark:text-gray-300">{pageClassLabels[pageClass]}</span>
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="flex flex-col gap-2">
+                <label htmlFor="numberingStyle" className="form-label text-sm font-medium">
+                  Style
+                </label>
+                <select
+                  id="numberingStyle"
+                  value={numbering.style}
+                  onChange={(e) => setNumbering({ ...numbering, style: e.target.value as PageNumberingOptions['style'] })}
+                  className="form-input bg-white dark:bg-gray-700"
+                >
+                  <option value="decimal">1, 2, 3</option>
+                  <option value="roman">i, ii, iii</option>
+                  <option value="section-alpha">A-1, A-2, B-1 (per section)</option>
+                  <option value="section-decimal">1-1, 1-2, 2-1 (per section)</option>
+                </select>
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <label htmlFor="numberingPosition" className="form-label text-sm font-medium">
+                  Position
+                </label>
+                <select
+                  id="numberingPosition"
+                  value={numbering.position}
+                  onChange={(e) => setNumbering({ ...numbering, position: e.target.value as PageNumberingOptions['position'] })}
+                  className="form-input bg-white dark:bg-gray-700"
+                >
+                  <option value="bottom-right">Bottom right</option>
+                  <option value="bottom-center">Bottom center</option>
+                  <option value="top-right">Top right</option>
+                </select>
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <label htmlFor="numberingPrefix" className="form-label text-sm font-medium">
+                  Prefix
+                </label>
+                <input
+                  id="numberingPrefix"
+                  type="text"
+                  value={numbering.prefix}
+                  onChange={(e) => setNumbering({ ...numbering, prefix: e.target.value })}
+                  placeholder="e.g. Page "
+                  className="form-input bg-white dark:bg-gray-700"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Paper & Document Page Size */}
+          <div className="bg-gray-50 dark:bg-secondary-900 p-6 rounded-lg border border-gray-200 dark:border-secondary-800">
+            <h3 className="text-lg font-semibold text-secondary-900 dark:text-white mb-4">Paper &amp; Page Size</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="flex flex-col gap-2">
+                <label htmlFor="paperSize" className="form-label text-sm font-medium">
+                  Packet paper size
+                </label>
+                <select
+                  id="paperSize"
+                  value={paperSize}
+                  onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+                  className="form-input bg-white dark:bg-gray-700"
+                >
+                  {(Object.keys(paperSizeLabels) as PaperSize[]).map(size => (
+                    <option key={size} value={size}>{paperSizeLabels[size]}</option>
+                  ))}
+                </select>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                {productType === 'structural-floor' 
-                  ? 'Structural Floor Panels are available in 3/4-in thickness' 
-                  : 'Underlayment Panels are available in 1/2-in and 5/8-in thickness'}
+                  A4 packets list panel sizes in millimetres first.
                 </p>
+              </div>
+              <div className="flex flex-col gap-2">
+                <label htmlFor="pageSizeMode" className="form-label text-sm font-medium">
+                  Pages of the attached documents
+                </label>
+                <select
+                  id="pageSizeMode"
+                  value={pageSizeMode}
+                  onChange={(e) => setPageSizeMode(e.target.value as PageSizeMode)}
+                  className="form-input bg-white dark:bg-gray-700"
+                >
+                  <option value="original">Keep original sizes</option>
+                  <option value="fit">Scale to fit {paperSizeNames[paperSize]}</option>
+                  <option value="rotate">Scale to fit {paperSizeNames[paperSize]}, turning landscape pages portrait</option>
+                </select>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Scaling prints every sheet at the same size as the generated pages.
+                </p>
+              </div>
             </div>
           </div>
         </form>
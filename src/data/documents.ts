@@ -1,13 +1,13 @@
 import type { Document, ProductType } from '@/types'
 import { documentService } from '@/services/documentService'
 
-// Real PDF documents will be fetched from IndexedDB
+// Document metadata from Supabase; the PDF files themselves are cached by sourcePdfCache
 let availableDocuments: Document[] = [];
 
 // Function to load documents dynamically
 async function loadDocuments(): Promise<void> {
   try {
-    // Load from IndexedDB
+    // Load from Supabase
     const uploadedDocs = await documentService.getAllDocuments();
     availableDocuments = uploadedDocs;
     console.log('Documents loaded from local storage:', availableDocuments.length);
@@ -0,0 +1,34 @@
+import type { PacketTheme } from '@/types';
+
+// NEXGEN branding, used when no theme has been saved or a saved theme omits a value
+export const defaultPacketTheme: PacketTheme = {
+  colors: {
+    accent: '#00a2ca',
+    headerBackground: '#141414',
+    headerText: '#ffffff',
+    title: '#181819',
+    heading: '#4d4c4c',
+    text: '#212121',
+    secondaryText: '#454545',
+    mutedText: '#666666',
+    fieldFill: '#f2f2f2',
+    fieldBorder: '#e6e6e6',
+    error: '#cc3333',
+    errorText: '#993333',
+  },
+  fonts: {
+    regularUrl: '',
+    boldUrl: '',
+  },
+  logo: {
+    imageUrl: '/image-white.png',
+    text: 'NEXGEN',
+  },
+  footerLines: [
+    'NEXGEN® Building Products, LLC',
+    '1504 Manhattan Ave West, #300 Brandon, FL 34205',
+    '(727) 634-5534',
+    'Technical Support: support@nexgenbp.com',
+  ],
+  version: 'Version 1.0 October 2025 © 2025 NEXGEN Building Products',
+};
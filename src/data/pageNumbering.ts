@@ -0,0 +1,16 @@
+import type { PageClass, PageNumberingOptions } from '@/types';
+
+// Generated pages only, plain numbers in the bottom-right corner
+export const defaultPageNumbering: PageNumberingOptions = {
+  pageClasses: ['cover', 'toc', 'divider'],
+  style: 'decimal',
+  position: 'bottom-right',
+  prefix: '',
+};
+
+export const pageClassLabels: Record<PageClass, string> = {
+  cover: 'Submittal form & product data',
+  toc: 'Table of contents',
+  divider: 'Section dividers',
+  source: 'Document pages',
+};
@@ -0,0 +1,14 @@
+import type { PaperSize } from '@/types';
+
+export const defaultPaperSize: PaperSize = 'letter';
+
+export const paperSizeLabels: Record<PaperSize, string> = {
+  letter: 'Letter (8.5 × 11 in)',
+  a4: 'A4 (210 × 297 mm)',
+};
+
+// Short names used where the paper is mentioned in running text
+export const paperSizeNames: Record<PaperSize, string> = {
+  letter: 'Letter',
+  a4: 'A4',
+};
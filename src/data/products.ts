@@ -0,0 +1,224 @@
+import type { PanelSize, ProductDefinition, ProductType } from '@/types';
+
+const RESOURCES_URL = 'www.nexgenbp.com/resources';
+const ASSEMBLIES_NOTE = 'Please visit NEXGEN Building Products resource page to find most up-to-date assemblies:';
+
+// Panel thicknesses, printed metric first on A4 packets
+const THREE_QUARTER_INCH: PanelSize = { imperial: '3/4-inch', metric: '20 mm' };
+const HALF_INCH: PanelSize = { imperial: '1/2”', metric: '12 mm' };
+const FIVE_EIGHTHS_INCH: PanelSize = { imperial: '5/8”', metric: '16 mm' };
+
+const structuralFloor: ProductDefinition = {
+  productType: 'structural-floor',
+  intro: {
+    heading: 'What Are MAXTERRA® MgO Non-Combustible Structural Floor Panels',
+    paragraphs: [
+      'MAXTERRA® MgO Non-Combustible Structural Floor Panels are high-performance subfloor panels with tongue and groove edges engineered to deliver fire resistance, acoustical performance, structural performance, and long-term durability in a single product.',
+    ],
+  },
+  sections: [
+    {
+      heading: 'Applications',
+      paragraphs: [
+        'MAXTERRA® MgO Non-Combustible Structural Floor Panels are engineered and tested for use on wood and cold-formed steel framing across a wide range of structural subfloor applications, delivering superior structural performance, fire resistance, acoustic control, and long-term durability. Designed to replace traditional plywood, OSB, wet-laid gypsum underlayment, or concrete deck systems, MAXTERRA® MgO Non-Combustible Structural Floor Panels provide a stronger, more dimensionally stable platform that meets the demands of multifamily, hospitality, modular, and other high-performance construction projects. MAXTERRA® MgO Non-Combustible Structural Floor Panels are recognized by the International Code Council Evaluation Service (ICC-ES) under Evaluation Report ESR-5194, Listing Report ESL-1645, and Underwriters Laboratories (UL) under Report R41539 confirming compliance for use in fire-rated and sound-rated floor assemblies across Types I–V construction.',
+      ],
+    },
+    {
+      heading: 'Skip-the-Gyp™ & Ditch-the-Deck™ Advantage',
+      paragraphs: [
+        'MAXTERRA® MgO Non-Combustible Structural Floor Panels are engineered as a single-layer system that delivers a faster, cleaner, and more efficient installation process while achieving code-required STC/IIC sound when installed as part of tested floor/ceiling assemblies. Unlike gypsum cement underlayment or costly and complex pan-and-pour systems, MAXTERRA® panels eliminate the need for separate wet-floor trades, door header or base plate modifications, added project oversight, and lengthy cure times that can delay or halt construction schedules. The result is a streamlined, single-trade solution that ensures reliable fire, sound, and structural performance across all types of high-demand projects.',
+      ],
+    },
+    {
+      heading: 'Availability',
+      paragraphs: [
+        'MAXTERRA® MgO Non-Combustible Structural Floor Panels are available through NEXGEN Building Products authorized distribution partners nationwide. For purchasing information, technical support, or to locate a distributor near you, visit www.nexgenbp.com/find-rep-or-distributor or contact NEXGEN Building Products directly +1(727)620-3334.',
+      ],
+    },
+    {
+      heading: 'Sound Attenuation',
+      paragraphs: [
+        'MAXTERRA® MgO Non-Combustible Structural Floor Panels have been evaluated in floor/ceiling assemblies for Sound Transmission Class (STC) in accordance with ASTM E90, and Impact Insulation Class (IIC) in accordance with ASTM E492. Evaluated assemblies are detailed in ICC-ES Listing Report ESL-1645.',
+        ASSEMBLIES_NOTE,
+        RESOURCES_URL,
+      ],
+    },
+    {
+      heading: 'Fire Resistance',
+      paragraphs: [
+        'MAXTERRA® MgO Non-Combustible Structural Floor Panels have been evaluated in floor/ceiling assemblies for fire-resistance in accordance with ASTM E119 (Standard Test Methods for Fire Tests of Building Construction and Materials) and ANSI/UL 263 (Fire Tests of Building Construction and Materials). Evaluated assemblies include: UL H501, UL H505, UL H515, UL H524, UL L502, UL L525, UL L528, & UL M500.',
+        ASSEMBLIES_NOTE,
+        RESOURCES_URL,
+      ],
+    },
+    {
+      heading: 'Floor Covering',
+      paragraphs: [
+        'Many types of finished floor coverings can be installed over MAXTERRA® MgO Non-Combustible Structural Floor Panels. Before applying any floor covering, always check the flooring manufacturer’s installation requirements and confirm compatibility with the substrate. Follow all requirements for primers, adhesives, mortars, self-levelers, underlayment, and related materials. Floor coverings commonly installed over MAXTERRA® panels include (but are not limited to): Engineered wood flooring, Vinyl, LVP, LVT, Carpet, & Tile (tile requires an additional tile backer underlayment). Refer to the MAXTERRA® MgO Non-Combustible Structural Floor Installation Guide for complete information regarding finished flooring installation: www.nexgenbp.com/resources',
+      ],
+    },
+    {
+      heading: 'Fasteners',
+      paragraphs: [
+        'Fasteners used with MAXTERRA® MgO Non-Combustible Structural Floor Panels must be code-recognized and inherently resistant to corrosion, or factory-coated for corrosion resistance (electro-galvanized or better). Use only approved fasteners suitable for the specific assembly and substrate to ensure long-term performance.',
+        'Refer to the MAXTERRA® MgO Non-Combustible Structural Floor Installation Guide for complete information regarding fastener schedules: www.nexgenbp.com/resources',
+      ],
+    },
+  ],
+  properties: [
+    { label: 'Available Thicknesses', values: [THREE_QUARTER_INCH] },
+    { label: 'Available Lengths', values: ['8 feet; 10 feet'] },
+    { label: 'Product Weight', values: ['4.92 lb/sqft'] },
+    { label: 'Edge Profile', values: ['Tongue & Groove (TG), & Square Edge (SE)*'] },
+    { label: 'Mold / Mildew Resistance', standard: 'ASTM G21', values: ['“0 Growth Observed”'] },
+    {
+      label: 'Non-Combustibility Test',
+      standard: 'ASTM E136',
+      values: ['Non-Combustible; Permitted for use in Types I-IV construction'],
+    },
+    {
+      label: 'Surface Burning Characteristics',
+      standard: 'ASTM E84 / UL 723',
+      values: ['Flame Spread Index: 0', 'Smoke Developed Index: 0'],
+    },
+    {
+      label: 'Allowable Uniform Load',
+      standard: 'ASTM E661',
+      values: ['133 psf L/600 deflection limit', '(24-inch joist spacing)'],
+    },
+    { label: 'Diaphragm Performance', standard: 'ASTM E455, AISI S907', values: ['Up to 1607 plf (nominal)'] },
+    {
+      label: 'Rated Floor / Ceiling Assemblies',
+      standard: 'ASTM E119 / UL 263',
+      values: ['Evaluated for performance in One-Hour and Two-Hour rated assemblies'],
+    },
+    { label: 'STC / IIC Acoustic Performance', standard: 'ASTM E90 and ASTM E492', values: ['See ESL-1645'] },
+    { label: 'Allowable Exposure', values: ['Up to 200 days'] },
+  ],
+  closingSections: [
+    {
+      heading: 'Available Resources',
+      paragraphs: [
+        'MAXTERRA® MgO Non-Combustible Structural Floor Panels can be specified under Section 06 16 23 – MgO Non-Combustible Structural Floor Panels in the CSI 3-part specification format. The MAXTERRA® 3-part specification, submittal sheets, and additional technical resources are available at www.nexgenbp.com/resources or by contacting NEXGEN Building Products directly.',
+      ],
+    },
+    {
+      heading: 'Warranty',
+      paragraphs: [
+        'MAXTERRA® MgO Non-Combustible Structural Floor Panels are backed by a 10-year Limited warranty, subject to the conditions and requirements outlined in the official warranty documentation. Limitations and restrictions apply. For complete details, refer to the MAXTERRA® 10-year Limited Warranty, and other applicable warranty documents available at www.nexgenbp.com/resources or by contacting NEXGEN Building Products directly.',
+      ],
+    },
+  ],
+};
+
+const underlayment: ProductDefinition = {
+  productType: 'underlayment',
+  intro: {
+    heading: 'What Is MAXTERRA® MgO Fire- And Water-Resistant Underlayment',
+    paragraphs: [
+      'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels are engineered to deliver superior fire resistance, acoustic performance, and dimensional stability for today’s demanding job sites. Manufactured from magnesium oxide (MgO) with reinforcing glass fiber mesh, MAXTERRA® panels provide a high-density, fire-resistant solution. They are designed for use as flooring underlayment over wood structural panels, serving as a durable replacement for other underlayment products such as wet-laid gypsum in both sound- and fire-rated assemblies.',
+    ],
+  },
+  sections: [
+    {
+      heading: 'Applications',
+      paragraphs: [
+        'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels are engineered and tested for use across a wide range of flooring underlayment applications, delivering proven performance in sound control, fire resistance, and structural durability. MAXTERRA® provides a more durable and dimensionally stable solution and is ideally suited for multifamily, hospitality, modular, and other high-performance construction projects.',
+        'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels are recognized by the International Code Council Evaluation Service (ICC-ES) under Evaluation Report ESR-5192 and Listing Report ESL-1645.',
+      ],
+    },
+    {
+      heading: 'Skip-the-Gyp™ Advantage',
+      paragraphs: [
+        'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels are engineered to achieve code-required STC/IIC sound ratings without the need for gypsum cement underlayment or sound mats, when installed as part of tested floor/ceiling assemblies. Unlike gypsum cement, MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels eliminate the need for a separate gypsum underlayment trade, additional sill plates, modifications to door headers, and additional project oversight – all while avoiding long cure times, cleanup, and callbacks that can delay or halt construction schedules. The result is a faster, cleaner, and more efficient installation process with reliable performance.',
+      ],
+    },
+    {
+      heading: 'Availability',
+      paragraphs: [
+        'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels are available through NEXGEN Building Products authorized distribution partners nationwide. For purchasing information, technical support, or to locate a distributor near you, visit www.nexgenbp.com/find-rep-or-distributor or contact NEXGEN Building Products directly +1(727)620-3334.',
+      ],
+    },
+    {
+      heading: 'Sound Attenuation',
+      paragraphs: [
+        'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels have been evaluated in floor/ceiling assemblies for Sound Transmission Class (STC) in accordance with ASTM E90, and Impact Insulation Class (IIC) in accordance with ASTM E492. Evaluated assemblies for underlayment are detailed in Report ESL-1645.',
+        ASSEMBLIES_NOTE,
+        RESOURCES_URL,
+      ],
+    },
+    {
+      heading: 'Fire Resistance',
+      paragraphs: [
+        'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels have been evaluated in floor/ceiling assemblies for fire-resistance in accordance with ASTM E119 (Standard Test Methods for Fire Tests of Building Construction and Materials) and ANSI/UL 263 (Fire Tests of Building Construction and Materials). UL L501, UL L502, UL L525, UL L528, UL L570, UL L602, & UL M500.',
+        ASSEMBLIES_NOTE,
+        RESOURCES_URL,
+      ],
+    },
+    {
+      heading: 'Floor Covering',
+      paragraphs: [
+        'Many types of finished floor coverings can be installed over MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels. Before applying any floor covering, always check the flooring manufacturer’s installation requirements and confirm compatibility with the substrate. Follow all requirements for primers, adhesives, mortars, feathering compounds, and related materials.',
+        'Floor coverings commonly installed over MAXTERRA® panels include (but are not limited to): Carpet, Engineered wood flooring, Vinyl, LVP, LVT, & Tile (tile requires an additional tile backer underlayment).',
+        'Refer to the MAXTERRA® Underlayment Installation Manual for complete information regarding finished flooring installation.',
+      ],
+    },
+    {
+      heading: 'Fasteners',
+      paragraphs: [
+        'Fasteners used with MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels must be code-recognized and inherently resistant to corrosion, or factory-coated for corrosion resistance (electro-galvanized or better). Use only approved fasteners suitable for the specific assembly and substrate to ensure long-term performance. Refer to the MAXTERRA® MgO Fire- And Water-Resistant Underlayment Installation Manual for complete information regarding fastener schedules.',
+      ],
+    },
+  ],
+  properties: [
+    { label: 'Available Thicknesses', values: [[HALF_INCH, ', & ', FIVE_EIGHTHS_INCH]] },
+    { label: 'Available Dimensions', values: ['4 feet x 8 feet'] },
+    { label: 'Product Weight', values: [[HALF_INCH, ': 2.22 lb/sqft'], [FIVE_EIGHTHS_INCH, ': 2.95 lb/sqft']] },
+    { label: 'Edge Profile', values: ['Square Edge (SE)'] },
+    { label: 'Mold / Mildew Resistance', standard: 'ASTM G21', values: ['“0 Growth Observed”'] },
+    {
+      label: 'Non-Combustibility Test',
+      standard: 'ASTM E136',
+      values: ['Non-Combustible; Permitted for use in Types I-IV construction'],
+    },
+    {
+      label: 'Surface Burning Characteristics',
+      standard: 'ASTM E84 / UL 723',
+      values: ['Flame Spread Index: 0', 'Smoke Developed Index: 0'],
+    },
+    {
+      label: 'Rated Floor / Ceiling Assemblies',
+      standard: 'ASTM E119 / UL 263',
+      values: ['Evaluated for performance in One-Hour and Two-Hour rated assemblies'],
+    },
+    { label: 'STC / IIC Acoustic Performance', standard: 'ASTM E90 and ASTM E492', values: ['See ESL-1645'] },
+    { label: 'Allowable Exposure', values: ['Up to 200 days'] },
+    { label: 'Construction Types', values: ['Types III, IV-C, IV-HT, and V'] },
+  ],
+  closingSections: [
+    {
+      heading: 'Available Resources',
+      paragraphs: [
+        'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels can be specified under Section 06 16 26 – Underlayment in the CSI 3-part specification format.',
+        'The MAXTERRA® 3-part specification, submittal sheets, and additional technical resources are available at www.nexgenbp.com or by contacting NEXGEN Building Products directly.',
+      ],
+    },
+    {
+      heading: 'Warranty',
+      paragraphs: [
+        'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels are backed by a 10-year Limited warranty, subject to the conditions and requirements outlined in the official warranty documentation. Limitations and restrictions apply. For complete details, refer to the MAXTERRA® 10-year Limited Warranty, and other applicable warranty documents available at www.nexgenbp.com/resources or by contacting NEXGEN Building Products directly.',
+      ],
+    },
+  ],
+};
+
+// Data sheet content for catalog products, keyed by product id. Products without
+// an entry get a data sheet with just their name and the approval stamp.
+export const productDefinitions: Record<ProductType, ProductDefinition> = {
+  'structural-floor': structuralFloor,
+  underlayment,
+};
+
+export function getProductDefinition(productType: ProductType): ProductDefinition | undefined {
+  return productDefinitions[productType];
+}
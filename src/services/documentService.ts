@@ -35,7 +35,7 @@ class DocumentService {
     try {
       const { data, error } = await supabase
         .from('documents')
-        .select('*')
+        .select('*, document_tag_assignments(tag_id)')
         .order('created_at', { ascending: false })
 
       if (error) {
@@ -53,7 +53,9 @@ class DocumentService {
         type: doc.type,
         required: doc.required,
         products: doc.products || [],
-        productType: doc.product_type
+        productType: doc.product_type,
+        updatedAt: doc.updated_at,
+        tags: this.tagIds(doc)
       }))
     } catch (error) {
       console.error('Error fetching documents:', error)
@@ -65,7 +67,7 @@ class DocumentService {
     try {
       const { data, error } = await supabase
         .from('documents')
-        .select('*')
+        .select('*, document_tag_assignments(tag_id)')
         .eq('product_type', productType)
         .order('created_at', { ascending: false })
 
@@ -84,7 +86,9 @@ class DocumentService {
         type: doc.type,
         required: doc.required,
         products: doc.products || [],
-        productType: doc.product_type
+        productType: doc.product_type,
+        updatedAt: doc.updated_at,
+        tags: this.tagIds(doc)
       }))
     } catch (error) {
       console.error('Error fetching documents by product type:', error)
@@ -96,7 +100,7 @@ class DocumentService {
     try {
       const { data, error } = await supabase
         .from('documents')
-        .select('*')
+        .select('*, document_tag_assignments(tag_id)')
         .eq('id', id)
         .maybeSingle()
 
@@ -115,7 +119,9 @@ class DocumentService {
         type: data.type,
         required: data.required,
         products: data.products || [],
-        productType: data.product_type
+        productType: data.product_type,
+        updatedAt: data.updated_at,
+        tags: this.tagIds(data)
       }
     } catch (error) {
       console.error('Error fetching document:', error)
@@ -190,7 +196,9 @@ class DocumentService {
         type: data.type,
         required: data.required,
         products: data.products || [],
-        productType: data.product_type
+        productType: data.product_type,
+        updatedAt: data.updated_at,
+        tags: this.tagIds(data)
       }
 
       return document
@@ -220,12 +228,38 @@ class DocumentService {
       if (error) {
         throw new Error(error.message)
       }
+
+      if (updates.tags !== undefined) {
+        await this.setTags(id, updates.tags)
+      }
     } catch (error) {
       console.error('Error updating document:', error)
       throw error instanceof Error ? error : new Error('Failed to update document')
     }
   }
 
+  // Replaces the document's tags with the given ones
+  private async setTags(id: string, tagIds: string[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('document_tag_assignments')
+      .delete()
+      .eq('document_id', id)
+
+    if (deleteError) {
+      throw new Error(deleteError.message)
+    }
+
+    if (tagIds.length === 0) return
+
+    const { error: insertError } = await supabase
+      .from('document_tag_assignments')
+      .insert(tagIds.map(tagId => ({ document_id: id, tag_id: tagId })))
+
+    if (insertError) {
+      throw new Error(insertError.message)
+    }
+  }
+
   async deleteDocument(id: string): Promise<void> {
     try {
       const doc = await this.getDocument(id)
@@ -322,6 +356,10 @@ class DocumentService {
     }
   }
 
+  private tagIds(row: { document_tag_assignments?: { tag_id: string }[] | null }): string[] {
+    return (row.document_tag_assignments || []).map(assignment => assignment.tag_id)
+  }
+
   private detectDocumentType(filename: string): DocumentType {
     const lower = filename.toLowerCase()
 
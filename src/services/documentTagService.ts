@@ -0,0 +1,147 @@
+import { supabase } from './supabaseClient'
+import type { Document, DocumentTag } from '@/types'
+
+// Columns of the document_tags table
+interface DocumentTagRow {
+  id: string
+  name: string
+  submittal_category: string | null
+  sort_order: number
+}
+
+// 'Fire Assembly 03' -> 'fire-assembly-03'
+function tagSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+class DocumentTagService {
+  private tagsPromise: Promise<DocumentTag[]> | null = null
+
+  // Loaded once and shared, until an admin changes the tags
+  async getTags(): Promise<DocumentTag[]> {
+    if (!this.tagsPromise) {
+      this.tagsPromise = this.fetchTags()
+    }
+    return this.tagsPromise
+  }
+
+  async createTag(name: string, submittalCategory?: string): Promise<DocumentTag> {
+    const id = tagSlug(name)
+    if (!id) {
+      throw new Error('Tag name is required')
+    }
+
+    try {
+      const tags = await this.getTags()
+      const { error, data } = await supabase
+        .from('document_tags')
+        .insert([
+          {
+            id,
+            name: name.trim(),
+            submittal_category: submittalCategory || null,
+            sort_order: Math.max(0, ...tags.map(tag => tag.sortOrder)) + 1
+          }
+        ])
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(error.code === '23505' ? `A tag named ${name.trim()} already exists` : error.message)
+      }
+
+      return this.toTag(data as DocumentTagRow)
+    } catch (error) {
+      console.error('Error creating document tag:', error)
+      throw error instanceof Error ? error : new Error('Failed to create tag')
+    } finally {
+      this.tagsPromise = null
+    }
+  }
+
+  async updateTag(id: string, updates: Partial<Pick<DocumentTag, 'name' | 'submittalCategory'>>): Promise<void> {
+    try {
+      const updateData: Partial<Pick<DocumentTagRow, 'name' | 'submittal_category'>> = {}
+      if (updates.name !== undefined) updateData.name = updates.name.trim()
+      if ('submittalCategory' in updates) updateData.submittal_category = updates.submittalCategory || null
+
+      const { error } = await supabase
+        .from('document_tags')
+        .update(updateData)
+        .eq('id', id)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    } catch (error) {
+      console.error('Error updating document tag:', error)
+      throw error instanceof Error ? error : new Error('Failed to update tag')
+    } finally {
+      this.tagsPromise = null
+    }
+  }
+
+  // Documents lose the tag along with it
+  async deleteTag(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('document_tags')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    } catch (error) {
+      console.error('Error deleting document tag:', error)
+      throw error instanceof Error ? error : new Error('Failed to delete tag')
+    } finally {
+      this.tagsPromise = null
+    }
+  }
+
+  // Ids of the submittal categories the tags of these documents check
+  async getSubmittalCategories(documents: Document[]): Promise<string[]> {
+    const tags = await this.getTags()
+    const tagIds = new Set(documents.flatMap(doc => doc.tags))
+
+    return tags
+      .filter(tag => tag.submittalCategory && tagIds.has(tag.id))
+      .map(tag => tag.submittalCategory!)
+  }
+
+  private async fetchTags(): Promise<DocumentTag[]> {
+    try {
+      const { data, error } = await supabase
+        .from('document_tags')
+        .select('*')
+        .order('sort_order', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching document tags:', error)
+        this.tagsPromise = null
+        return []
+      }
+
+      return ((data || []) as DocumentTagRow[]).map(tag => this.toTag(tag))
+    } catch (error) {
+      console.error('Error fetching document tags:', error)
+      this.tagsPromise = null
+      return []
+    }
+  }
+
+  private toTag(row: DocumentTagRow): DocumentTag {
+    return {
+      id: row.id,
+      name: row.name,
+      submittalCategory: row.submittal_category || undefined,
+      sortOrder: row.sort_order
+    }
+  }
+}
+
+export const documentTagService = new DocumentTagService()
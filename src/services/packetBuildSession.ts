@@ -0,0 +1,169 @@
+import { documentService } from './documentService'
+import { themeService } from './themeService'
+import { PacketWorkerService } from './packetWorkerService'
+import type { GeneratePacketOptions } from './pdfService'
+import type { Document, PacketResult, PacketTheme, ProjectFormData, SelectedDocument } from '@/types'
+import { sha256 } from '@/utils'
+
+export interface PacketBuildInput {
+  formData: ProjectFormData
+  selectedDocuments: SelectedDocument[] // Selected documents, in packet order
+  strict?: boolean
+}
+
+type BuildCaller = Omit<GeneratePacketOptions, 'strict'>
+
+// A build still running, with the callers waiting for it
+interface PendingBuild {
+  key: string
+  result: Promise<PacketResult>
+  callers: Set<BuildCaller>
+  controller: AbortController
+}
+
+// JSON with object keys sorted, so equal inputs always hash the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * The packet last built from the wizard, shared by preview and download. A
+ * build is reused while the form data, the selected documents and their order,
+ * the document versions and the theme all hash the same, and dropped as soon
+ * as any of them is edited. Callers asking for the same packet while it is
+ * being built wait for that build instead of starting another one.
+ */
+class PacketBuildSession {
+  private last: { key: string; result: PacketResult } | null = null
+  private pending = new Map<string, PendingBuild>()
+
+  async build(input: PacketBuildInput, options: BuildCaller = {}): Promise<PacketResult> {
+    // Document metadata and the theme are read fresh, so server-side changes also miss
+    const [availableDocuments, theme] = await Promise.all([
+      documentService.getDocumentsByProductType(input.formData.productType),
+      themeService.getTheme(),
+    ])
+
+    const key = await sha256(
+      canonicalJson({
+        formData: input.formData,
+        documents: input.selectedDocuments.map(doc => ({
+          id: doc.document.id,
+          order: doc.order,
+          name: doc.document.name,
+          filename: doc.document.filename,
+          url: doc.document.url,
+          updatedAt: doc.document.updatedAt,
+        })),
+        versions: availableDocuments.map(doc => ({
+          id: doc.id,
+          name: doc.name,
+          updatedAt: doc.updatedAt,
+          size: doc.size,
+        })),
+        theme,
+        strict: input.strict ?? false,
+      })
+    )
+
+    if (this.last?.key === key) {
+      console.log('Reusing the packet built from the same input')
+      return this.last.result
+    }
+
+    let pending = this.pending.get(key)
+    if (pending) {
+      console.log('Waiting for the packet already being built from the same input')
+    } else {
+      pending = this.start(key, input, availableDocuments, theme)
+    }
+    return this.join(pending, options)
+  }
+
+  private start(
+    key: string,
+    input: PacketBuildInput,
+    availableDocuments: Document[],
+    theme: PacketTheme
+  ): PendingBuild {
+    const callers = new Set<BuildCaller>()
+    const controller = new AbortController()
+
+    // Packets are rendered off the main thread with the theme admins manage under /admin/theme
+    const packetService = new PacketWorkerService(theme)
+    const result = packetService.generatePacket(input.formData, input.selectedDocuments, availableDocuments, {
+      onProgress: progress => callers.forEach(caller => caller.onProgress?.(progress)),
+      signal: controller.signal,
+      strict: input.strict,
+    })
+
+    const pending: PendingBuild = { key, result, callers, controller }
+    this.pending.set(key, pending)
+    result.then(
+      packet => {
+        this.last = { key, result: packet }
+        this.forget(pending)
+      },
+      () => this.forget(pending)
+    )
+    return pending
+  }
+
+  // Each caller can stop waiting with its own signal; the build is cancelled
+  // once no caller is left waiting for it
+  private join(pending: PendingBuild, caller: BuildCaller): Promise<PacketResult> {
+    const { signal } = caller
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const leave = () => {
+        pending.callers.delete(caller)
+        signal?.removeEventListener('abort', cancel)
+      }
+      const cancel = () => {
+        leave()
+        if (pending.callers.size === 0) {
+          this.forget(pending)
+          pending.controller.abort(signal?.reason)
+        }
+        reject(signal?.reason)
+      }
+
+      pending.callers.add(caller)
+      signal?.addEventListener('abort', cancel)
+      pending.result.then(
+        packet => {
+          leave()
+          resolve(packet)
+        },
+        error => {
+          leave()
+          reject(error)
+        }
+      )
+    })
+  }
+
+  private forget(pending: PendingBuild): void {
+    if (this.pending.get(pending.key) === pending) {
+      this.pending.delete(pending.key)
+    }
+  }
+
+  invalidate(): void {
+    this.last = null
+  }
+}
+
+export const packetBuildSession = new PacketBuildSession()
@@ -0,0 +1,33 @@
+import { PDFService, PacketGenerationError } from './pdfService'
+import type { PacketWorkerRequest, PacketWorkerResponse } from './packetWorkerService'
+
+// Entry point of the packet worker started by PacketWorkerService
+
+const post = (message: PacketWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer })
+}
+
+self.onmessage = async (event: MessageEvent<PacketWorkerRequest>) => {
+  const { theme, formData, selectedDocuments, allAvailableDocuments, strict } = event.data
+
+  try {
+    const { bytes: pdfBytes, report } = await new PDFService(theme).generatePacket(
+      formData,
+      selectedDocuments,
+      allAvailableDocuments,
+      { onProgress: progress => post({ type: 'progress', progress }), strict }
+    )
+    // pdf-lib saves into a buffer of its own, which is handed over to the main
+    // thread instead of copied
+    const ownsBuffer = pdfBytes.byteOffset === 0 && pdfBytes.byteLength === pdfBytes.buffer.byteLength
+    const bytes = (ownsBuffer ? pdfBytes.buffer : pdfBytes.slice().buffer) as ArrayBuffer
+    post({ type: 'done', bytes, report }, [bytes])
+  } catch (error) {
+    console.error('Error generating packet in worker:', error)
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      report: error instanceof PacketGenerationError ? error.report : undefined,
+    })
+  }
+}
@@ -0,0 +1,92 @@
+import { defaultPacketTheme } from '@/data/packetTheme'
+import { PacketGenerationError } from './pdfService'
+import type { GeneratePacketOptions } from './pdfService'
+import type {
+  Document,
+  PacketProgress,
+  PacketReport,
+  PacketResult,
+  PacketTheme,
+  ProjectFormData,
+  SelectedDocument
+} from '@/types'
+
+// Messages between PacketWorkerService and packetWorker. Each generation gets
+// its own worker, so messages carry no request id.
+export interface PacketWorkerRequest {
+  theme: PacketTheme
+  formData: ProjectFormData
+  selectedDocuments: SelectedDocument[]
+  allAvailableDocuments?: Document[]
+  strict?: boolean
+}
+
+export type PacketWorkerResponse =
+  | { type: 'progress'; progress: PacketProgress }
+  | { type: 'done'; bytes: ArrayBuffer; report: PacketReport } // bytes are transferred, not copied
+  | { type: 'error'; message: string; report?: PacketReport } // report is set for strict mode failures
+
+/**
+ * Runs PDFService.generatePacket in a dedicated Web Worker so merging large
+ * packets does not freeze the wizard. The worker is terminated when the packet
+ * is done, which also releases the memory of the merged documents, and when
+ * the signal aborts.
+ */
+export class PacketWorkerService {
+  constructor(private theme: PacketTheme = defaultPacketTheme) {}
+
+  generatePacket(
+    formData: ProjectFormData,
+    selectedDocuments: SelectedDocument[],
+    allAvailableDocuments?: Document[],
+    options: GeneratePacketOptions = {}
+  ): Promise<PacketResult> {
+    const { onProgress, signal, strict } = options
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const worker = new Worker(new URL('./packetWorker.ts', import.meta.url), { type: 'module' })
+      const finish = () => {
+        worker.terminate()
+        signal?.removeEventListener('abort', cancel)
+      }
+      const cancel = () => {
+        finish()
+        reject(signal?.reason)
+      }
+      signal?.addEventListener('abort', cancel)
+
+      worker.onmessage = (event: MessageEvent<PacketWorkerResponse>) => {
+        const message = event.data
+        if (message.type === 'progress') {
+          onProgress?.(message.progress)
+        } else if (message.type === 'done') {
+          finish()
+          resolve({ bytes: new Uint8Array(message.bytes), report: message.report })
+        } else {
+          finish()
+          reject(message.report ? new PacketGenerationError(message.message, message.report) : new Error(message.message))
+        }
+      }
+      // Fails to load or throws outside generatePacket
+      worker.onerror = event => {
+        event.preventDefault()
+        finish()
+        reject(new Error(event.message || 'Packet worker failed'))
+      }
+
+      const request: PacketWorkerRequest = {
+        theme: this.theme,
+        formData,
+        selectedDocuments,
+        allAvailableDocuments,
+        strict
+      }
+      worker.postMessage(request)
+    })
+  }
+}
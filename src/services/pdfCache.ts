@@ -0,0 +1,177 @@
+import type { Document } from '@/types'
+
+const DB_NAME = 'pdf-packet-cache'
+const DB_VERSION = 1
+// Metadata is kept apart from the file bytes so eviction never reads the files
+const ENTRIES_STORE = 'entries'
+const FILES_STORE = 'files'
+
+// Least recently used files are evicted once the cache holds more than this
+const MAX_CACHE_BYTES = 250 * 1024 * 1024
+
+interface CacheEntry {
+  key: string
+  documentId: string
+  updatedAt: string
+  size: number
+  lastUsed: number
+}
+
+interface CacheFile {
+  key: string
+  bytes: Uint8Array
+}
+
+// A new file is always a new upload, so the id and updated_at name one version
+// of a document's file
+function cacheKey(document: Document): string | null {
+  return document.updatedAt ? `${document.id}@${document.updatedAt}` : null
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Downloaded source PDFs kept in IndexedDB, so repeat packets skip the
+ * downloads. Entries are only used while their key, size and updated_at match
+ * the document's server metadata. The cache is best effort: when
+ * IndexedDB is unavailable or fails, documents are simply downloaded.
+ */
+class SourcePdfCache {
+  private dbPromise: Promise<IDBDatabase | null> | null = null
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null)
+          return
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const entries = request.result.createObjectStore(ENTRIES_STORE, { keyPath: 'key' })
+          entries.createIndex('documentId', 'documentId')
+          entries.createIndex('lastUsed', 'lastUsed')
+          request.result.createObjectStore(FILES_STORE, { keyPath: 'key' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          console.warn('PDF cache unavailable:', request.error)
+          resolve(null)
+        }
+      })
+    }
+    return this.dbPromise
+  }
+
+  // The cached file of the document's current version, or null to download it
+  async get(document: Document): Promise<Uint8Array | null> {
+    const key = cacheKey(document)
+    const db = await this.openDatabase()
+    if (!key || !db) return null
+
+    try {
+      const transaction = db.transaction([ENTRIES_STORE, FILES_STORE], 'readonly')
+      const [entry, file] = await Promise.all([
+        requestResult<CacheEntry | undefined>(transaction.objectStore(ENTRIES_STORE).get(key)),
+        requestResult<CacheFile | undefined>(transaction.objectStore(FILES_STORE).get(key)),
+      ])
+      if (!entry || !file) return null
+
+      // Compared by metadata only: hashing every hit would cost large files
+      // more time than their download
+      const valid = entry.updatedAt === document.updatedAt &&
+        entry.size === file.bytes.byteLength &&
+        (!document.size || entry.size === document.size)
+      if (!valid) {
+        console.warn(`Discarding stale cached copy of ${document.name}`)
+        await this.remove(db, [key])
+        return null
+      }
+
+      const touch = db.transaction(ENTRIES_STORE, 'readwrite')
+      touch.objectStore(ENTRIES_STORE).put({ ...entry, lastUsed: Date.now() })
+      await transactionDone(touch)
+      return file.bytes
+    } catch (error) {
+      console.warn(`Error reading cached copy of ${document.name}:`, error)
+      return null
+    }
+  }
+
+  // Stores a downloaded file, replacing older versions of the same document
+  async put(document: Document, bytes: Uint8Array): Promise<void> {
+    const key = cacheKey(document)
+    const db = await this.openDatabase()
+    if (!key || !db || bytes.byteLength > MAX_CACHE_BYTES) return
+
+    try {
+      const entry: CacheEntry = {
+        key,
+        documentId: document.id,
+        updatedAt: document.updatedAt!,
+        size: bytes.byteLength,
+        lastUsed: Date.now(),
+      }
+
+      const olderKeys = await requestResult(
+        db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE).index('documentId').getAllKeys(document.id)
+      )
+      await this.remove(db, olderKeys.map(String).filter(olderKey => olderKey !== key))
+
+      const transaction = db.transaction([ENTRIES_STORE, FILES_STORE], 'readwrite')
+      transaction.objectStore(ENTRIES_STORE).put(entry)
+      transaction.objectStore(FILES_STORE).put({ key, bytes })
+      await transactionDone(transaction)
+
+      await this.evict(db)
+    } catch (error) {
+      console.warn(`Error caching ${document.name}:`, error)
+    }
+  }
+
+  private async remove(db: IDBDatabase, keys: string[]): Promise<void> {
+    if (keys.length === 0) return
+    const transaction = db.transaction([ENTRIES_STORE, FILES_STORE], 'readwrite')
+    keys.forEach(key => {
+      transaction.objectStore(ENTRIES_STORE).delete(key)
+      transaction.objectStore(FILES_STORE).delete(key)
+    })
+    await transactionDone(transaction)
+  }
+
+  // Drop the least recently used files until the cache fits its size limit
+  private async evict(db: IDBDatabase): Promise<void> {
+    const entries = await requestResult<CacheEntry[]>(
+      db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE).index('lastUsed').getAll()
+    )
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+    const evicted: string[] = []
+
+    for (const entry of entries) {
+      if (total <= MAX_CACHE_BYTES) break
+      evicted.push(entry.key)
+      total -= entry.size
+    }
+
+    if (evicted.length > 0) {
+      console.log(`Evicting ${evicted.length} cached PDFs`)
+      await this.remove(db, evicted)
+    }
+  }
+}
+
+export const sourcePdfCache = new SourcePdfCache()
@@ -0,0 +1,188 @@
+import { PDFDocument, PDFFont, StandardFonts } from 'pdf-lib'
+import fontkit from '@pdf-lib/fontkit'
+import dejaVuSansUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url'
+import dejaVuSansBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url'
+import notoSansScUrl from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url'
+import notoSansScBoldUrl from '@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf?url'
+import type { PageFonts } from './pdfLayout'
+
+// Font files are fetched once per session and shared by every packet
+const fontBytesCache = new Map<string, Promise<Uint8Array>>()
+// Characters each font file covers, read once per file rather than per packet
+const fontFileCharacterSetCache = new WeakMap<Uint8Array, Set<number>>()
+const characterSetCache = new WeakMap<object, Set<number>>()
+
+// Closest WinAnsi-safe stand-ins for characters that commonly arrive via copy/paste
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  '\u2018': "'",
+  '\u2019': "'",
+  '\u201c': '"',
+  '\u201d': '"',
+  '\u2013': '-',
+  '\u2014': '-',
+  '\u2026': '...',
+  '\u00a0': ' ',
+  '\t': ' ',
+}
+
+const IGNORED_CODE_POINTS = new Set([0x0a, 0x0d])
+
+export interface CustomFontUrls {
+  regularUrl: string
+  boldUrl?: string
+}
+
+function fetchFontBytes(url: string): Promise<Uint8Array> {
+  let bytes = fontBytesCache.get(url)
+  if (!bytes) {
+    bytes = fetch(url).then(async response => {
+      if (!response.ok) {
+        throw new Error(`Failed to fetch font: ${response.statusText}`)
+      }
+      return new Uint8Array(await response.arrayBuffer())
+    })
+    // Let a failed download be retried by the next packet
+    bytes.catch(() => fontBytesCache.delete(url))
+    fontBytesCache.set(url, bytes)
+  }
+  return bytes
+}
+
+function getCharacterSet(font: PDFFont): Set<number> {
+  let characters = characterSetCache.get(font)
+  if (!characters) {
+    characters = new Set(font.getCharacterSet())
+    characterSetCache.set(font, characters)
+  }
+  return characters
+}
+
+function getFontFileCharacterSet(bytes: Uint8Array): Set<number> {
+  let characters = fontFileCharacterSetCache.get(bytes)
+  if (!characters) {
+    characters = new Set(fontkit.create(bytes).characterSet)
+    fontFileCharacterSetCache.set(bytes, characters)
+  }
+  return characters
+}
+
+function missingCodePoints(texts: string[], supported: Set<number>): number[] {
+  const missing = new Set<number>()
+  texts.forEach(text => {
+    for (const char of text) {
+      const codePoint = char.codePointAt(0)!
+      if (!IGNORED_CODE_POINTS.has(codePoint) && !supported.has(codePoint)) {
+        missing.add(codePoint)
+      }
+    }
+  })
+  return Array.from(missing)
+}
+
+// Headings, labels and names are drawn bold as well, so both faces must cover the text
+function coversText(texts: string[], ...faces: Uint8Array[]): boolean {
+  return Array.from(new Set(faces)).every(bytes => missingCodePoints(texts, getFontFileCharacterSet(bytes)).length === 0)
+}
+
+/**
+ * Replace characters the font cannot draw so that pdf-lib never throws on user
+ * input. Only relevant for the Helvetica fallback and for glyphs that none of
+ * the bundled fonts cover.
+ */
+export function sanitizeText(text: string, font: PDFFont): string {
+  const supported = getCharacterSet(font)
+  let result = ''
+
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!
+    if (supported.has(codePoint) || IGNORED_CODE_POINTS.has(codePoint)) {
+      result += char
+      continue
+    }
+
+    const replacement = CHARACTER_REPLACEMENTS[char] ?? char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+    result += Array.from(replacement).every(c => supported.has(c.codePointAt(0)!)) ? replacement : '?'
+  }
+
+  return result
+}
+
+async function embedStandardFonts(pdf: PDFDocument): Promise<PageFonts> {
+  return {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  }
+}
+
+async function embedCustomFonts(
+  pdf: PDFDocument,
+  texts: string[],
+  fonts: CustomFontUrls
+): Promise<PageFonts | null> {
+  try {
+    const regularBytes = await fetchFontBytes(fonts.regularUrl)
+    const boldBytes = fonts.boldUrl ? await fetchFontBytes(fonts.boldUrl) : regularBytes
+
+    // Brand fonts often lack accented or non-Latin glyphs; the bundled fonts handle those packets
+    if (!coversText(texts, regularBytes, boldBytes)) return null
+
+    return {
+      regular: await pdf.embedFont(regularBytes, { subset: true }),
+      bold: await pdf.embedFont(boldBytes, { subset: true }),
+    }
+  } catch (error) {
+    console.warn('Could not load theme fonts, using bundled fonts:', error)
+    return null
+  }
+}
+
+/**
+ * Embed the fonts used for generated pages. `texts` must hold every string the
+ * generated pages print. Theme fonts are used when both faces cover it.
+ * Otherwise DejaVu Sans covers Latin, Greek and Cyrillic; when the text needs
+ * glyphs it lacks (e.g. CJK names), the much larger Noto Sans SC is downloaded
+ * and used instead. Helvetica is only used when the bundled fonts cannot be
+ * loaded.
+ */
+export async function embedPacketFonts(
+  pdf: PDFDocument,
+  texts: string[],
+  customFonts?: CustomFontUrls
+): Promise<PageFonts> {
+  pdf.registerFontkit(fontkit)
+
+  if (customFonts?.regularUrl) {
+    const fonts = await embedCustomFonts(pdf, texts, customFonts)
+    if (fonts) return fonts
+  }
+
+  try {
+    const [regularBytes, boldBytes] = await Promise.all([
+      fetchFontBytes(dejaVuSansUrl),
+      fetchFontBytes(dejaVuSansBoldUrl),
+    ])
+
+    if (!coversText(texts, regularBytes, boldBytes)) {
+      try {
+        const [cjkRegularBytes, cjkBoldBytes] = await Promise.all([
+          fetchFontBytes(notoSansScUrl),
+          fetchFontBytes(notoSansScBoldUrl),
+        ])
+        return {
+          regular: await pdf.embedFont(cjkRegularBytes, { subset: true }),
+          bold: await pdf.embedFont(cjkBoldBytes, { subset: true }),
+        }
+      } catch (error) {
+        console.warn('Could not load CJK font, unsupported characters will be replaced:', error)
+      }
+    }
+
+    return {
+      regular: await pdf.embedFont(regularBytes, { subset: true }),
+      bold: await pdf.embedFont(boldBytes, { subset: true }),
+    }
+  } catch (error) {
+    console.warn('Could not load bundled fonts, falling back to Helvetica:', error)
+    return embedStandardFonts(pdf)
+  }
+}
@@ -0,0 +1,120 @@
+import { PDFArray, PDFDict, PDFName, PDFNumber, PDFPage } from 'pdf-lib'
+
+// Matrices follow the PDF convention: a point is a row vector, so multiply(m, n) applies m first
+export type Matrix = [number, number, number, number, number, number]
+
+export interface Bounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+// A page as it is displayed: size after /Rotate, and the mapping back to user space
+export interface PageFrame {
+  width: number
+  height: number
+  rotation: number
+  toPage: Matrix
+}
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+/**
+ * Describe the page as it is displayed, after /Rotate and the crop box
+ */
+export function getPageFrame(page: PDFPage): PageFrame {
+  const { x, y, width, height } = page.getCropBox()
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360
+
+  switch (rotation) {
+    case 90:
+      return { width: height, height: width, rotation, toPage: [0, 1, -1, 0, x + width, y] }
+    case 180:
+      return { width, height, rotation, toPage: [-1, 0, 0, -1, x + width, y + height] }
+    case 270:
+      return { width: height, height: width, rotation, toPage: [0, -1, 1, 0, x, y + height] }
+    default:
+      return { width, height, rotation: 0, toPage: [1, 0, 0, 1, x, y] }
+  }
+}
+
+export function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ]
+}
+
+export function invert(m: Matrix): Matrix {
+  const det = m[0] * m[3] - m[1] * m[2]
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ]
+}
+
+export function transformPoint(m: Matrix, x: number, y: number): [number, number] {
+  return [x * m[0] + y * m[2] + m[4], x * m[1] + y * m[3] + m[5]]
+}
+
+export function transformBounds(m: Matrix, box: Bounds): Bounds {
+  const corners = [
+    transformPoint(m, box.minX, box.minY),
+    transformPoint(m, box.maxX, box.minY),
+    transformPoint(m, box.minX, box.maxY),
+    transformPoint(m, box.maxX, box.maxY),
+  ]
+  const xs = corners.map(([x]) => x)
+  const ys = corners.map(([, y]) => y)
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) }
+}
+
+export function union(a: Bounds | undefined, b: Bounds): Bounds {
+  if (!a) return b
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  }
+}
+
+export function readNumbers(array: PDFArray | undefined): number[] | undefined {
+  if (!array) return undefined
+  const numbers: number[] = []
+  for (let i = 0; i < array.size(); i++) {
+    const value = array.lookupMaybe(i, PDFNumber)
+    if (!value) return undefined
+    numbers.push(value.asNumber())
+  }
+  return numbers
+}
+
+/**
+ * Move the annotations of a page, such as links, by a transform of its content
+ */
+export function transformAnnotations(page: PDFPage, transform: Matrix): void {
+  const annotations = page.node.Annots()
+  for (let i = 0; i < (annotations?.size() ?? 0); i++) {
+    const annotation = annotations!.lookupMaybe(i, PDFDict)
+    const rect = annotation && readNumbers(annotation.lookupMaybe(PDFName.of('Rect'), PDFArray))
+    if (!annotation || !rect || rect.length < 4) continue
+
+    const moved = transformBounds(transform, {
+      minX: Math.min(rect[0], rect[2]),
+      minY: Math.min(rect[1], rect[3]),
+      maxX: Math.max(rect[0], rect[2]),
+      maxY: Math.max(rect[1], rect[3]),
+    })
+    annotation.set(PDFName.of('Rect'), page.doc.context.obj([moved.minX, moved.minY, moved.maxX, moved.maxY]))
+  }
+}
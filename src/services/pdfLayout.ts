@@ -0,0 +1,290 @@
+import { PDFDocument, PDFFont, PDFPage, RGB, rgb } from 'pdf-lib'
+import { sanitizeText } from './pdfFonts'
+
+export interface PageFonts {
+  regular: PDFFont
+  bold: PDFFont
+}
+
+export interface LayoutBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Describes a generated page: its size, the margins that bound the flowing
+ * content area, and the decoration (header bar, footer) repeated on every page.
+ */
+export interface PageTemplate {
+  size: [number, number]
+  margin: {
+    top: number
+    right: number
+    bottom: number
+    left: number
+  }
+  decorate?: (page: PDFPage, pageIndex: number) => void
+}
+
+export interface TextStyle {
+  font: PDFFont
+  size?: number
+  color?: RGB
+  lineHeight?: number
+  indent?: number
+  align?: 'left' | 'center' | 'right'
+}
+
+export interface FitOptions {
+  maxWidth: number
+  maxSize: number
+  minSize?: number
+  maxLines?: number
+}
+
+export interface FittedText {
+  size: number
+  lines: string[]
+}
+
+type Layout = (cursor: LayoutCursor) => void
+
+const ELLIPSIS = '…'
+
+/**
+ * Break text into lines no wider than maxWidth. Words that are wider than a
+ * whole line on their own are broken between characters. Characters the font
+ * cannot draw are replaced first.
+ */
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+
+  sanitizeText(text, font).split(/\r?\n/).forEach(paragraph => {
+    let line = ''
+
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate
+        return
+      }
+
+      if (line) lines.push(line)
+      line = ''
+
+      // Hard-break a single word that cannot fit on any line
+      let rest = word
+      while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1
+        while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--
+        lines.push(rest.slice(0, cut))
+        rest = rest.slice(cut)
+      }
+      line = rest
+    })
+
+    lines.push(line)
+  })
+
+  return lines
+}
+
+/**
+ * Shorten a single line with an ellipsis until it fits maxWidth
+ */
+export function truncateText(value: string, font: PDFFont, size: number, maxWidth: number): string {
+  const text = sanitizeText(value, font)
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text
+
+  let end = text.length
+  while (end > 0 && font.widthOfTextAtSize(text.slice(0, end).trimEnd() + ELLIPSIS, size) > maxWidth) {
+    end--
+  }
+  return text.slice(0, end).trimEnd() + ELLIPSIS
+}
+
+/**
+ * Fit text into at most maxLines lines, preferring fewer lines: text is shrunk
+ * from maxSize towards minSize on one line before it is allowed to wrap onto a
+ * second, and so on. If it does not fit even at minSize, the last line is
+ * truncated with an ellipsis.
+ */
+export function fitText(text: string, font: PDFFont, options: FitOptions): FittedText {
+  const { maxWidth, maxSize } = options
+  const minSize = options.minSize ?? maxSize
+  const maxLines = options.maxLines ?? 1
+
+  for (let lineCount = 1; lineCount <= maxLines; lineCount++) {
+    for (let size = maxSize; size >= minSize; size -= 0.5) {
+      const lines = wrapText(text, font, size, maxWidth)
+      if (lines.length <= lineCount) return { size, lines }
+    }
+  }
+
+  const lines = wrapText(text, font, minSize, maxWidth)
+  const kept = lines.slice(0, maxLines)
+  kept[maxLines - 1] = truncateText(lines.slice(maxLines - 1).join(' '), font, minSize, maxWidth)
+
+  return { size: minSize, lines: kept }
+}
+
+/**
+ * A top-down cursor over the content area of a template. Content that does not
+ * fit on the current page starts a new one. Without a target document the
+ * cursor only measures, so callers can learn page counts before drawing.
+ */
+export class LayoutCursor {
+  readonly pages: PDFPage[] = []
+  pageCount = 0
+  y = 0
+
+  private currentPage?: PDFPage
+
+  constructor(
+    readonly template: PageTemplate,
+    private target?: { pdf: PDFDocument; insertAt?: number }
+  ) {
+    this.newPage()
+  }
+
+  get measuring(): boolean {
+    return !this.target
+  }
+
+  get left(): number {
+    return this.template.margin.left
+  }
+
+  get right(): number {
+    return this.template.size[0] - this.template.margin.right
+  }
+
+  get width(): number {
+    return this.right - this.left
+  }
+
+  get top(): number {
+    return this.template.size[1] - this.template.margin.top
+  }
+
+  get bottom(): number {
+    return this.template.margin.bottom
+  }
+
+  get remaining(): number {
+    return this.y - this.bottom
+  }
+
+  newPage(): void {
+    const pageIndex = this.pageCount
+    this.pageCount++
+    this.y = this.top
+
+    if (!this.target) return
+
+    const { pdf, insertAt } = this.target
+    const page = insertAt === undefined
+      ? pdf.addPage(this.template.size)
+      : pdf.insertPage(insertAt + pageIndex, this.template.size)
+
+    this.currentPage = page
+    this.pages.push(page)
+    this.template.decorate?.(page, pageIndex)
+  }
+
+  ensureSpace(height: number): void {
+    // A fresh page is never broken again, so oversized content still gets drawn
+    if (height > this.remaining && this.y < this.top) {
+      this.newPage()
+    }
+  }
+
+  moveDown(amount: number): void {
+    this.y -= amount
+  }
+
+  /**
+   * Draw text wrapped to the content width, one line at a time, so long
+   * paragraphs continue on the next page
+   */
+  text(value: string, style: TextStyle): void {
+    const size = style.size ?? 10
+    const lineHeight = style.lineHeight ?? size * 1.25
+    const indent = style.indent ?? 0
+    const available = this.width - indent
+
+    wrapText(value, style.font, size, available).forEach(line => {
+      this.ensureSpace(lineHeight)
+
+      if (this.currentPage && !this.measuring) {
+        const textWidth = style.font.widthOfTextAtSize(line, size)
+        let x = this.left + indent
+        if (style.align === 'center') x += (available - textWidth) / 2
+        if (style.align === 'right') x += available - textWidth
+
+        this.currentPage.drawText(line, {
+          x,
+          y: this.y - size,
+          size,
+          font: style.font,
+          color: style.color ?? rgb(0, 0, 0),
+        })
+      }
+
+      this.y -= lineHeight
+    })
+  }
+
+  /**
+   * Reserve a block of the given height and draw into it
+   */
+  box(height: number, draw: (page: PDFPage, box: LayoutBox) => void): void {
+    this.ensureSpace(height)
+
+    if (this.currentPage && !this.measuring) {
+      draw(this.currentPage, { x: this.left, y: this.y - height, width: this.width, height })
+    }
+
+    this.y -= height
+  }
+
+  /**
+   * Draw a block pinned to the bottom of the content area of the current page,
+   * breaking to a new page when the flowing content already reaches it
+   */
+  bottomBox(height: number, draw: (page: PDFPage, box: LayoutBox) => void): void {
+    this.ensureSpace(height)
+
+    if (this.currentPage && !this.measuring) {
+      draw(this.currentPage, { x: this.left, y: this.bottom, width: this.width, height })
+    }
+
+    this.y = this.bottom
+  }
+}
+
+/**
+ * Run a layout without drawing and return the number of pages it needs
+ */
+export function measureLayout(template: PageTemplate, layout: Layout): number {
+  const cursor = new LayoutCursor(template)
+  layout(cursor)
+  return cursor.pageCount
+}
+
+/**
+ * Draw a layout into the document, appending its pages or inserting them at
+ * the given index, and return the pages it created
+ */
+export function renderLayout(
+  pdf: PDFDocument,
+  template: PageTemplate,
+  layout: Layout,
+  insertAt?: number
+): PDFPage[] {
+  const cursor = new LayoutCursor(template, { pdf, insertAt })
+  layout(cursor)
+  return cursor.pages
+}
@@ -0,0 +1,273 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFPage,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib'
+
+export interface OutlineEntry {
+  title: string
+  pageIndex: number
+  children?: OutlineEntry[]
+  open?: boolean
+}
+
+// Outline entries read from a source PDF, with pages relative to its first page
+export interface SourceOutlineEntry {
+  title: string
+  pageOffset: number
+  children: SourceOutlineEntry[]
+}
+
+export interface LinkRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const MAX_OUTLINE_DEPTH = 8
+
+/**
+ * Add an invisible GoTo link over a rectangle of the page. The target is either
+ * a page of the same document or a named destination registered with
+ * setNamedDestination, which lets links point at pages that do not exist yet.
+ */
+export function addInternalLink(page: PDFPage, rect: LinkRect, target: PDFPage | string): void {
+  const context = page.doc.context
+  const dest = typeof target === 'string'
+    ? PDFName.of(target)
+    : context.obj([target.ref, 'XYZ', null, null, null])
+
+  const annotation = context.obj({
+    Type: 'Annot',
+    Subtype: 'Link',
+    Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+    Border: [0, 0, 0],
+    Dest: dest,
+  })
+
+  page.node.addAnnot(context.register(annotation))
+}
+
+/**
+ * Register a named destination in the catalog's /Dests dictionary
+ */
+export function setNamedDestination(pdf: PDFDocument, name: string, page: PDFPage): void {
+  const context = pdf.context
+  let dests = pdf.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)
+
+  if (!dests) {
+    dests = context.obj({})
+    pdf.catalog.set(PDFName.of('Dests'), context.register(dests))
+  }
+
+  dests.set(PDFName.of(name), context.obj([page.ref, 'XYZ', null, null, null]))
+}
+
+/**
+ * Write a bookmark tree to the document catalog and open the outline panel
+ */
+export function writeOutline(pdf: PDFDocument, entries: OutlineEntry[]): void {
+  if (entries.length === 0) return
+
+  const context = pdf.context
+  const outlinesRef = context.nextRef()
+  const level = writeOutlineLevel(pdf, entries, outlinesRef)
+
+  context.assign(
+    outlinesRef,
+    context.obj({
+      Type: 'Outlines',
+      First: level.first,
+      Last: level.last,
+      Count: level.visibleCount,
+    })
+  )
+
+  pdf.catalog.set(PDFName.of('Outlines'), outlinesRef)
+  pdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'))
+}
+
+function writeOutlineLevel(
+  pdf: PDFDocument,
+  entries: OutlineEntry[],
+  parentRef: PDFRef
+): { first: PDFRef; last: PDFRef; visibleCount: number } {
+  const context = pdf.context
+  const pages = pdf.getPages()
+  const refs = entries.map(() => context.nextRef())
+  let visibleCount = 0
+
+  entries.forEach((entry, index) => {
+    const pageIndex = Math.min(Math.max(entry.pageIndex, 0), pages.length - 1)
+    const item = context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: parentRef,
+      Dest: [pages[pageIndex].ref, 'XYZ', null, null, null],
+    })
+
+    if (index > 0) item.set(PDFName.of('Prev'), refs[index - 1])
+    if (index < refs.length - 1) item.set(PDFName.of('Next'), refs[index + 1])
+
+    const children = entry.children || []
+    let childCount = 0
+    if (children.length > 0) {
+      const level = writeOutlineLevel(pdf, children, refs[index])
+      item.set(PDFName.of('First'), level.first)
+      item.set(PDFName.of('Last'), level.last)
+      // Positive count keeps the item expanded, negative leaves it collapsed
+      item.set(
+        PDFName.of('Count'),
+        context.obj(entry.open ? level.visibleCount : -level.visibleCount)
+      )
+      if (entry.open) childCount = level.visibleCount
+    }
+
+    visibleCount += 1 + childCount
+    context.assign(refs[index], item)
+  })
+
+  return { first: refs[0], last: refs[refs.length - 1], visibleCount }
+}
+
+/**
+ * Read the bookmark tree of a source PDF so it can be nested under its section.
+ * Entries whose destination cannot be resolved to a page are skipped, but their
+ * children are kept.
+ */
+export function readSourceOutline(pdf: PDFDocument): SourceOutlineEntry[] {
+  try {
+    const outlines = pdf.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict)
+    if (!outlines) return []
+
+    const pageRefs = pdf.getPages().map(page => page.ref)
+    return readOutlineItems(pdf, outlines, pageRefs, 0)
+  } catch (error) {
+    console.warn('Could not read source outline:', error)
+    return []
+  }
+}
+
+function readOutlineItems(
+  pdf: PDFDocument,
+  parent: PDFDict,
+  pageRefs: PDFRef[],
+  depth: number
+): SourceOutlineEntry[] {
+  if (depth >= MAX_OUTLINE_DEPTH) return []
+
+  const entries: SourceOutlineEntry[] = []
+  const visited = new Set<PDFDict>()
+  let item = parent.lookupMaybe(PDFName.of('First'), PDFDict)
+
+  while (item && !visited.has(item)) {
+    visited.add(item)
+
+    const title = decodeTitle(item)
+    const pageOffset = resolveItemPage(pdf, item, pageRefs)
+    const children = readOutlineItems(pdf, item, pageRefs, depth + 1)
+
+    if (pageOffset !== undefined && title) {
+      entries.push({ title, pageOffset, children })
+    } else {
+      entries.push(...children)
+    }
+
+    item = item.lookupMaybe(PDFName.of('Next'), PDFDict)
+  }
+
+  return entries
+}
+
+function decodeTitle(item: PDFDict): string {
+  const title = item.lookup(PDFName.of('Title'))
+  if (title instanceof PDFString || title instanceof PDFHexString) {
+    return title.decodeText().trim()
+  }
+  return ''
+}
+
+function resolveItemPage(
+  pdf: PDFDocument,
+  item: PDFDict,
+  pageRefs: PDFRef[]
+): number | undefined {
+  const target = readDestination(pdf, item)?.get(0)
+  const index = target instanceof PDFRef ? pageRefs.indexOf(target) : -1
+  return index >= 0 ? index : undefined
+}
+
+/**
+ * Explicit destination of an outline item or link, from its /Dest or GoTo
+ * action, with named destinations looked up in the document
+ */
+export function readDestination(pdf: PDFDocument, item: PDFDict): PDFArray | undefined {
+  let dest: PDFObject | undefined = item.lookup(PDFName.of('Dest'))
+
+  if (!dest) {
+    const action = item.lookupMaybe(PDFName.of('A'), PDFDict)
+    const actionType = action?.lookupMaybe(PDFName.of('S'), PDFName)
+    if (!action || actionType !== PDFName.of('GoTo')) return undefined
+    dest = action.lookup(PDFName.of('D'))
+  }
+
+  if (dest instanceof PDFName || dest instanceof PDFString || dest instanceof PDFHexString) {
+    dest = lookupNamedDestination(pdf, dest)
+  }
+  if (dest instanceof PDFDict) {
+    dest = dest.lookup(PDFName.of('D'))
+  }
+  return dest instanceof PDFArray && dest.size() > 0 ? dest : undefined
+}
+
+function lookupNamedDestination(
+  pdf: PDFDocument,
+  name: PDFName | PDFString | PDFHexString
+): PDFObject | undefined {
+  // PDF 1.1 style: /Dests dictionary in the catalog keyed by name
+  if (name instanceof PDFName) {
+    const dests = pdf.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict)
+    return dests?.lookup(name)
+  }
+
+  // PDF 1.2+ style: /Names /Dests name tree keyed by string
+  const names = pdf.catalog.lookupMaybe(PDFName.of('Names'), PDFDict)
+  const tree = names?.lookupMaybe(PDFName.of('Dests'), PDFDict)
+  return tree ? searchNameTree(tree, name.decodeText(), 0) : undefined
+}
+
+function searchNameTree(node: PDFDict, key: string, depth: number): PDFObject | undefined {
+  if (depth >= MAX_OUTLINE_DEPTH) return undefined
+
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray)
+  if (names) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      const entryKey = names.lookup(i)
+      if (
+        (entryKey instanceof PDFString || entryKey instanceof PDFHexString) &&
+        entryKey.decodeText() === key
+      ) {
+        return names.lookup(i + 1)
+      }
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray)
+  if (kids) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i)
+      if (kid instanceof PDFDict) {
+        const found = searchNameTree(kid, key, depth + 1)
+        if (found) return found
+      }
+    }
+  }
+
+  return undefined
+}
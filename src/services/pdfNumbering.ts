@@ -0,0 +1,74 @@
+import type { PageClass, PageNumberingOptions } from '@/types'
+
+export interface PacketPage {
+  pageClass: PageClass
+  section?: number // Index of the document section, undefined for the front matter
+}
+
+/**
+ * Work out the label printed on every page of the packet. Pages that are not
+ * described, or whose class is not numbered, get no label and do not advance
+ * the count. Section styles restart the count in every document section and
+ * number the front matter i, ii, iii.
+ */
+export function labelPages(
+  pages: (PacketPage | undefined)[],
+  options: PageNumberingOptions
+): (string | undefined)[] {
+  const numbered = new Set(options.pageClasses)
+  const sectionCounts = new Map<number, number>()
+  let count = 0
+
+  return pages.map(page => {
+    if (!page || !numbered.has(page.pageClass)) return undefined
+
+    if (options.style === 'decimal' || options.style === 'roman') {
+      count++
+      return options.style === 'roman' ? toRoman(count) : String(count)
+    }
+
+    const section = page.section ?? -1
+    const sectionCount = (sectionCounts.get(section) ?? 0) + 1
+    sectionCounts.set(section, sectionCount)
+
+    if (page.section === undefined) return toRoman(sectionCount)
+    const sectionLabel = options.style === 'section-alpha' ? toLetters(page.section) : String(page.section + 1)
+    return `${sectionLabel}-${sectionCount}`
+  })
+}
+
+/**
+ * How other pages refer to a label, e.g. in the table of contents. Without a
+ * prefix the reference still reads as a page number.
+ */
+export function pageReference(label: string, options: PageNumberingOptions): string {
+  return options.prefix ? `${options.prefix}${label}` : `Page ${label}`
+}
+
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ]
+  let rest = value
+  let result = ''
+  numerals.forEach(([amount, numeral]) => {
+    while (rest >= amount) {
+      result += numeral
+      rest -= amount
+    }
+  })
+  return result
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA, like spreadsheet columns
+function toLetters(index: number): string {
+  let rest = index + 1
+  let result = ''
+  while (rest > 0) {
+    const digit = (rest - 1) % 26
+    result = String.fromCharCode(65 + digit) + result
+    rest = Math.floor((rest - 1) / 26)
+  }
+  return result
+}
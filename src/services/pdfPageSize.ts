@@ -0,0 +1,212 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRawStream,
+  PDFRef,
+  concatTransformationMatrix,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+} from 'pdf-lib'
+import {
+  IDENTITY,
+  getPageFrame,
+  invert,
+  multiply,
+  transformAnnotations,
+  transformBounds,
+  transformPoint,
+} from './pdfGeometry'
+import type { Matrix, PageFrame } from './pdfGeometry'
+import { readDestination } from './pdfNavigation'
+import type { PageSizeMode } from '@/types'
+
+// Pages within this many points of the packet page size are kept as they are
+const SIZE_TOLERANCE = 2
+
+// A source page as added to the packet
+interface PlacedPage {
+  page: PDFPage
+  placement?: Matrix // From the source page's user space, when placed on a standard page
+}
+
+/**
+ * Copy every page of a source document into the packet. Unless the mode keeps
+ * the original sizes, pages that differ from the packet page size are placed
+ * on a new standard page and scaled to fit it: in 'fit' mode on a page of the
+ * same orientation, in 'rotate' mode landscape pages are turned onto a
+ * portrait page. Links move with the content and keep pointing at the pages
+ * they link to.
+ */
+export async function addSourcePages(
+  pdf: PDFDocument,
+  sourcePdf: PDFDocument,
+  mode: PageSizeMode,
+  pageSize: [number, number]
+): Promise<PDFPage[]> {
+  // Copying all pages at once shares fonts and images between them, including
+  // the pages that are then embedded on a standard page
+  const copied = await pdf.copyPages(sourcePdf, sourcePdf.getPageIndices())
+  const placed: PlacedPage[] = []
+
+  for (const page of copied) {
+    const frame = getPageFrame(page)
+    const [targetWidth, targetHeight] = targetSize(frame, mode, pageSize)
+    const fits = Math.abs(frame.width - targetWidth) <= SIZE_TOLERANCE &&
+      Math.abs(frame.height - targetHeight) <= SIZE_TOLERANCE
+
+    if (mode === 'original' || fits) {
+      placed.push({ page: pdf.addPage(page) })
+      continue
+    }
+
+    placed.push(await placeOnStandardPage(pdf, page, frame, mode === 'rotate', [targetWidth, targetHeight]))
+  }
+
+  relinkPages(pdf, sourcePdf, placed)
+  return placed.map(({ page }) => page)
+}
+
+function targetSize(frame: PageFrame, mode: PageSizeMode, pageSize: [number, number]): [number, number] {
+  const [width, height] = pageSize
+  const landscape = frame.width > frame.height
+  return mode === 'fit' && landscape ? [height, width] : [width, height]
+}
+
+async function placeOnStandardPage(
+  pdf: PDFDocument,
+  page: PDFPage,
+  frame: PageFrame,
+  rotateLandscape: boolean,
+  [targetWidth, targetHeight]: [number, number]
+): Promise<PlacedPage> {
+  const turn = rotateLandscape && frame.width > frame.height
+  const contentWidth = turn ? frame.height : frame.width
+  const contentHeight = turn ? frame.width : frame.height
+  const scale = Math.min(targetWidth / contentWidth, targetHeight / contentHeight)
+
+  // From the source page's user space to the page as displayed, a quarter turn
+  // counterclockwise for landscape pages, then scaled and centered
+  let placement: Matrix = invert(frame.toPage)
+  if (turn) placement = multiply(placement, [0, 1, -1, 0, frame.height, 0])
+  placement = multiply(placement, [
+    scale,
+    0,
+    0,
+    scale,
+    (targetWidth - contentWidth * scale) / 2,
+    (targetHeight - contentHeight * scale) / 2,
+  ])
+
+  // The form keeps the source page's coordinates, clipped to its crop box
+  const { x, y, width, height } = page.getCropBox()
+  const embedded = await pdf.embedPage(page, { left: x, bottom: y, right: x + width, top: y + height }, IDENTITY)
+  await embedded.embed()
+
+  const target = pdf.addPage([targetWidth, targetHeight])
+  const name = target.node.newXObject('SourcePage', embedded.ref)
+  target.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(...placement),
+    drawObject(name),
+    popGraphicsState()
+  )
+
+  transformAnnotations(page, placement)
+  const annotations = page.node.Annots()
+  if (annotations) target.node.set(PDFName.of('Annots'), annotations)
+
+  discardPage(pdf, page)
+  return { page: target, placement }
+}
+
+/**
+ * Point the internal links of a document's pages at those pages as added to
+ * the packet. The copied links target stray copies of the source pages and
+ * cannot use the source's named destinations, so each target is read from the
+ * source annotation. Links to pages that are not in the packet are removed.
+ */
+function relinkPages(pdf: PDFDocument, sourcePdf: PDFDocument, placed: PlacedPage[]): void {
+  const sourcePages = sourcePdf.getPages()
+  const sourceRefs = sourcePages.map(page => page.ref)
+
+  placed.forEach(({ page }, pageIndex) => {
+    const annotations = page.node.Annots()
+    if (!annotations) return
+    const sourceAnnotations = sourcePages[pageIndex].node.Annots()
+    const kept: PDFObject[] = []
+
+    for (let i = 0; i < annotations.size(); i++) {
+      const annotation = annotations.lookupMaybe(i, PDFDict)
+      if (annotation?.has(PDFName.of('P'))) annotation.set(PDFName.of('P'), page.ref)
+
+      if (annotation && isInternalLink(annotation)) {
+        const sourceAnnotation = sourceAnnotations?.lookupMaybe(i, PDFDict)
+        const dest = sourceAnnotation && readDestination(sourcePdf, sourceAnnotation)
+        const target = dest?.get(0)
+        const targetIndex = target instanceof PDFRef ? sourceRefs.indexOf(target) : -1
+        if (!dest || targetIndex < 0) continue
+
+        const moved = moveDestination(pdf, dest, placed[targetIndex])
+        if (annotation.has(PDFName.of('Dest'))) {
+          annotation.set(PDFName.of('Dest'), moved)
+        } else {
+          annotation.set(PDFName.of('A'), pdf.context.obj({ S: 'GoTo', D: moved }))
+        }
+      }
+      kept.push(annotations.get(i))
+    }
+
+    page.node.set(PDFName.of('Annots'), pdf.context.obj(kept))
+  })
+}
+
+function isInternalLink(annotation: PDFDict): boolean {
+  if (annotation.has(PDFName.of('Dest'))) return true
+  const action = annotation.lookupMaybe(PDFName.of('A'), PDFDict)
+  return action?.lookupMaybe(PDFName.of('S'), PDFName) === PDFName.of('GoTo')
+}
+
+// The destination on its page in the packet. Positions on a page placed on a
+// standard page are moved with its content; fits to a single edge become a
+// whole-page fit, as the edge may have turned.
+function moveDestination(pdf: PDFDocument, dest: PDFArray, { page, placement }: PlacedPage): PDFArray {
+  const type = dest.lookupMaybe(1, PDFName)?.decodeText() ?? 'Fit'
+  const number = (index: number) => dest.lookupMaybe(index, PDFNumber)?.asNumber() ?? null
+  const args = Array.from({ length: Math.max(dest.size() - 2, 0) }, (_, k) => number(k + 2))
+
+  if (!placement) return pdf.context.obj([page.ref, type, ...args])
+
+  if (type === 'XYZ') {
+    const [left, top, zoom] = args
+    if (left === null || top === null) return pdf.context.obj([page.ref, type, null, null, zoom])
+    const [x, y] = transformPoint(placement, left, top)
+    return pdf.context.obj([page.ref, type, x, y, zoom])
+  }
+  if (type === 'FitR' && args.length >= 4 && args.every(arg => arg !== null)) {
+    const [left, bottom, right, top] = args as number[]
+    const moved = transformBounds(placement, { minX: left, minY: bottom, maxX: right, maxY: top })
+    return pdf.context.obj([page.ref, type, moved.minX, moved.minY, moved.maxX, moved.maxY])
+  }
+  return pdf.context.obj([page.ref, type === 'FitB' ? 'FitB' : 'Fit'])
+}
+
+// The copied page is only used as the source of the embedded form. Its original
+// content streams were decoded into the form and are not needed in the packet.
+function discardPage(pdf: PDFDocument, page: PDFPage): void {
+  const contents = page.node.get(PDFName.of('Contents'))
+  const refs = contents instanceof PDFArray ? contents.asArray() : [contents]
+
+  refs.forEach(ref => {
+    // Streams pdf-lib added itself, such as the shared q/Q wrappers, stay
+    if (ref instanceof PDFRef && pdf.context.lookup(ref) instanceof PDFRawStream) {
+      pdf.context.delete(ref)
+    }
+  })
+  pdf.context.delete(page.ref)
+}
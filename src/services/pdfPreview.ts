@@ -0,0 +1,41 @@
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from 'pdfjs-dist'
+
+// pdf.js and its worker are only downloaded once a packet is previewed
+async function loadPdfJs() {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ])
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default
+  return pdfjs
+}
+
+export async function openPreviewDocument(bytes: Uint8Array): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfJs()
+  // pdf.js takes over the buffer it is given, so it gets a copy and the packet
+  // itself can still be downloaded
+  return pdfjs.getDocument({ data: bytes.slice() }).promise
+}
+
+/**
+ * Draw a page onto a canvas at the given CSS width, with enough pixels to stay
+ * sharp on high-density screens. Cancel the returned task before drawing
+ * another page onto the same canvas.
+ */
+export function renderPreviewPage(page: PDFPageProxy, canvas: HTMLCanvasElement, width: number): RenderTask {
+  const pixelRatio = window.devicePixelRatio || 1
+  const cssScale = width / page.getViewport({ scale: 1 }).width
+  const viewport = page.getViewport({ scale: cssScale * pixelRatio })
+
+  canvas.width = Math.floor(viewport.width)
+  canvas.height = Math.floor(viewport.height)
+  canvas.style.width = `${width}px`
+  canvas.style.height = `${viewport.height / pixelRatio}px`
+
+  return page.render({ canvasContext: canvas.getContext('2d')!, viewport })
+}
+
+// Rendering is cancelled whenever a page is replaced before it finished drawing
+export function isRenderCancelled(error: unknown): boolean {
+  return error instanceof Error && error.name === 'RenderingCancelledException'
+}
@@ -1,17 +1,143 @@
-import { PDFDocument, PDFPage, rgb, StandardFonts, PageSizes } from 'pdf-lib'
+import { PDFDocument, PDFFont, PDFImage, PDFPage, RGB, rgb, PageSizes } from 'pdf-lib'
 import { supabase } from './supabaseClient'
-import type { ProjectFormData, SelectedDocument } from '@/types'
+import { embedPacketFonts } from './pdfFonts'
+import { productService } from './productService'
+import { sourcePdfCache } from './pdfCache'
+import { defaultPacketTheme } from '@/data/packetTheme'
+import { defaultPageNumbering } from '@/data/pageNumbering'
+import { defaultPaperSize } from '@/data/paperSizes'
+import {
+  LayoutCursor,
+  fitText,
+  measureLayout,
+  renderLayout,
+  truncateText,
+  wrapText
+} from './pdfLayout'
+import type { PageFonts, PageTemplate } from './pdfLayout'
+import {
+  addInternalLink,
+  readSourceOutline,
+  setNamedDestination,
+  writeOutline
+} from './pdfNavigation'
+import type { OutlineEntry, SourceOutlineEntry } from './pdfNavigation'
+import { labelPages, pageReference } from './pdfNumbering'
+import { addSourcePages } from './pdfPageSize'
+import type { PacketPage } from './pdfNumbering'
+import { drawUprightText, getDisplayedSize, stampPage } from './pdfStamping'
+import type { PageStamp } from './pdfStamping'
+import { getProductDefinition } from '@/data/products'
+import { groupSubmittalCategories } from '@/utils/submittalCategories'
+import type { SubmittalCategoryGroup } from '@/utils/submittalCategories'
+import { formatSheetText } from '@/utils'
+import type {
+  CsiSection,
+  Document,
+  PacketTheme,
+  FailedDocument,
+  PacketPhase,
+  PacketProgress,
+  PacketReport,
+  PacketResult,
+  PageNumberingOptions,
+  PaperSize,
+  Product,
+  ProductProperty,
+  ProductSheetSection,
+  ProjectFormData,
+  SelectedDocument,
+  SubmittalCategory
+} from '@/types'
+
+export interface GeneratePacketOptions {
+  onProgress?: (progress: PacketProgress) => void
+  signal?: AbortSignal // Aborting rejects with the signal's reason, an AbortError by default
+  strict?: boolean // Reject with a PacketGenerationError instead of producing a packet with error pages
+}
+
+// Thrown in strict mode; the report says which parts of the packet failed
+export class PacketGenerationError extends Error {
+  constructor(message: string, public report: PacketReport) {
+    super(message)
+    this.name = 'PacketGenerationError'
+  }
+}
 
 interface DocumentSection {
   name: string
   type: string
   startPage: number
+  pageReference: string // Page number shown in the TOC, empty when the section is not numbered
   pageCount: number
+  outline: SourceOutlineEntry[]
+  dividerPage: PDFPage
+}
+
+// Source documents downloaded and parsed ahead of the one being merged
+const SOURCE_PREFETCH_LIMIT = 4
+
+// Submittal form checklists with more rows than this are set in two columns
+const CHECKLIST_TWO_COLUMN_ROWS = 12
+
+// A line of the submittal form's checklist: a group header or a checkbox
+interface ChecklistRow {
+  label: string
+  header?: boolean
+  checked?: boolean
+  indent: number
+  text?: string // Set for free-text categories, printed on a line after the label
+}
+
+// The TOC length and its page column depend on each other; they settle within a
+// few layout passes, as the column only ever widens
+const MAX_TOC_LAYOUT_PASSES = 5
+
+// The fixed labels (Table of Contents, Back to contents, Submittal No. ...) and
+// page numbers only use printable ASCII
+const FIXED_TEXT = Array.from({ length: 0x7f - 0x20 }, (_, index) => String.fromCharCode(0x20 + index)).join('')
+
+// Named destination the "Back to contents" links on section dividers jump to
+const TOC_DESTINATION = 'contents'
+
+interface PacketPaper {
+  size: [number, number]
+  margin: PageTemplate['margin']
+  metricFirst: boolean // Panel sizes read '20 mm (3/4-inch)'
 }
 
-class PDFService {
-  private async getPdfBytes(url: string): Promise<Uint8Array> {
-    const response = await fetch(url)
+const mm = (value: number) => (value * 72) / 25.4
+
+// Generated pages, and source pages when their sizes are normalized. The top
+// margin clears the 80pt header bar on either paper.
+const PAPER_SIZES: Record<PaperSize, PacketPaper> = {
+  letter: { size: PageSizes.Letter, margin: { top: 100, right: 50, bottom: 60, left: 50 }, metricFirst: false },
+  a4: { size: PageSizes.A4, margin: { top: 100, right: mm(15), bottom: mm(20), left: mm(15) }, metricFirst: true },
+}
+
+type PacketColors = Record<keyof PacketTheme['colors'], RGB> & { black: RGB; white: RGB }
+
+function hexToRgb(hex: string): RGB {
+  const value = hex.replace('#', '')
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) / 255)
+  return [r, g, b].some(Number.isNaN) ? rgb(0, 0, 0) : rgb(r, g, b)
+}
+
+export class PDFService {
+  private colors: PacketColors
+  // Logo image embedded once per packet and drawn by every page template
+  private logos = new WeakMap<PDFDocument, PDFImage>()
+
+  constructor(private theme: PacketTheme = defaultPacketTheme) {
+    const colors = Object.fromEntries(
+      Object.entries(theme.colors).map(([name, hex]) => [name, hexToRgb(hex)])
+    ) as Record<keyof PacketTheme['colors'], RGB>
+    this.colors = { ...colors, black: rgb(0, 0, 0), white: rgb(1, 1, 1) }
+  }
+
+  private async getPdfBytes(url: string, signal?: AbortSignal): Promise<Uint8Array> {
+    const response = await fetch(url, { signal })
     if (!response.ok) {
       throw new Error(`Failed to fetch PDF: ${response.statusText}`)
     }
@@ -19,6 +145,56 @@ class PDFService {
     return new Uint8Array(arrayBuffer)
   }
 
+  // Signs every path in one request. Paths that cannot be signed are left out
+  // of the map, so only their documents fail.
+  async getDocumentUrls(filePaths: string[]): Promise<Map<string, string>> {
+    const signedUrls = new Map<string, string>()
+    if (filePaths.length === 0) return signedUrls
+
+    try {
+      const { data, error } = await supabase.storage
+        .from('documents')
+        .createSignedUrls(filePaths, 3600)
+
+      if (error) throw error
+      data.forEach(entry => {
+        if (entry.path && !entry.error) {
+          signedUrls.set(entry.path, entry.signedUrl)
+        } else {
+          console.error(`Error generating signed URL for ${entry.path}:`, entry.error)
+        }
+      })
+    } catch (error) {
+      console.error('Error generating signed URLs:', error)
+    }
+    return signedUrls
+  }
+
+  private async loadSourceDocument(
+    document: Document,
+    signedUrls: Map<string, string>,
+    signal?: AbortSignal
+  ): Promise<PDFDocument> {
+    const cachedBytes = await sourcePdfCache.get(document)
+    if (cachedBytes) {
+      console.log(`Loaded ${document.name} from the cache`)
+      return PDFDocument.load(cachedBytes)
+    }
+
+    const signedUrl = signedUrls.get(document.url)
+    if (!signedUrl) {
+      throw new Error('Failed to generate document URL')
+    }
+    const pdfBytes = await this.getPdfBytes(signedUrl, signal)
+    const sourcePdf = await PDFDocument.load(pdfBytes)
+    // Only files that parse are worth keeping. The merge does not wait for the write.
+    sourcePdfCache.put(document, pdfBytes).catch(error => {
+      console.warn(`Error caching ${document.name}:`, error)
+    })
+    console.log(`Loaded ${document.name}`)
+    return sourcePdf
+  }
+
   async getDocumentUrl(filePath: string): Promise<string> {
     try {
       const { data, error } = await supabase.storage
@@ -36,8 +212,9 @@ class PDFService {
   async generatePacket(
     formData: ProjectFormData,
     selectedDocuments: SelectedDocument[],
-    allAvailableDocuments?: Document[]
-  ): Promise<Uint8Array> {
+    allAvailableDocuments?: Document[],
+    options: GeneratePacketOptions = {}
+  ): Promise<PacketResult> {
     console.log('Starting PDF generation...')
     const finalPdf = await PDFDocument.create()
 
@@ -46,736 +223,1315 @@ class PDFService {
       .filter(doc => doc.selected)
       .sort((a, b) => a.order - b.order)
 
+    // Steps: cover, product info, fetching and merging each document, numbering
+    // and saving. Progress is reported as a step starts; the abort signal is
+    // checked between steps and cancels the downloads in flight.
+    const { signal } = options
+    const totalSteps = sortedDocs.length * 2 + 4
+    let completedSteps = 0
+    const startStep = (phase: PacketPhase, message: string) => {
+      options.onProgress?.({ phase, message, completed: completedSteps, total: totalSteps })
+    }
+    const finishStep = () => {
+      completedSteps++
+    }
+
+    // Collected for the report; every failure here adds an error page
+    const warnings: string[] = []
+    const failedDocuments: FailedDocument[] = []
+    let errorPageCount = 0
+    const reason = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
     // Get all document names for the submittal form
     const selectedDocumentNames = sortedDocs.map(doc => doc.document.name)
 
     // Filter available documents to match product type if provided
     const docsForCoverPage = allAvailableDocuments || sortedDocs.map(doc => doc.document)
 
-    // 1. Add Cover Page (Submittal Form)
-    let submittalFormPageCount = 0
+    const product = await productService.getProduct(formData.productType)
+    if (!product) {
+      throw new Error(`Unknown product: ${formData.productType}`)
+    }
+    const csiSection = this.resolveCsiSection(product, formData)
+    const paper = PAPER_SIZES[formData.paperSize ?? defaultPaperSize]
+
+    const fonts = await this.embedFonts(
+      finalPdf,
+      this.packetTexts(formData, product, csiSection, [
+        ...docsForCoverPage.map(doc => doc.name),
+        ...selectedDocumentNames,
+      ])
+    )
+    if (!(await this.embedLogo(finalPdf))) {
+      warnings.push('The logo image could not be loaded, the logo text was used instead')
+    }
+
+    // 1. Add Cover Page (Submittal Form). A part that fails halfway drops the
+    // pages it already added, so only the error page stands in for it.
+    signal?.throwIfAborted()
+    startStep('cover', 'Creating the submittal form')
+    const submittalFormStart = finalPdf.getPageCount()
+    let submittalFormFailed = false
     try {
       console.log('Adding submittal form...')
-      await this.addCoverPage(finalPdf, formData, selectedDocumentNames, docsForCoverPage)
-      submittalFormPageCount = finalPdf.getPageCount()
-      console.log(`Added ${submittalFormPageCount} submittal form pages`)
+      this.addCoverPage(finalPdf, fonts, csiSection, paper, product, formData, selectedDocumentNames, docsForCoverPage)
+      console.log(`Added ${finalPdf.getPageCount() - submittalFormStart} submittal form pages`)
     } catch (error) {
       console.error('Error creating cover page:', error)
-      await this.addErrorPage(finalPdf, 'Cover Page', 'Failed to create cover page')
-      submittalFormPageCount = 1
+      this.removePagesFrom(finalPdf, submittalFormStart)
+      this.addErrorPage(finalPdf, fonts, csiSection, paper, 'Cover Page', 'Failed to create cover page')
+      warnings.push(`The submittal form could not be created: ${reason(error)}`)
+      errorPageCount++
+      submittalFormFailed = true
     }
+    const submittalFormPageCount = finalPdf.getPageCount() - submittalFormStart
+    finishStep()
 
     // 2. Add Product Info Page
+    startStep('product-info', 'Creating the product data sheet')
+    const productInfoStart = finalPdf.getPageCount()
+    let productInfoFailed = false
     try {
       console.log('Adding product info page...')
-      await this.addProductInfoPage(finalPdf, formData)
+      this.addProductInfoPage(finalPdf, fonts, csiSection, paper, product)
       console.log('Product info page added')
     } catch (error) {
       console.error('Error adding product info:', error)
-      await this.addErrorPage(finalPdf, 'Product Info', 'Failed to add product information')
+      this.removePagesFrom(finalPdf, productInfoStart)
+      this.addErrorPage(finalPdf, fonts, csiSection, paper, 'Product Info', 'Failed to add product information')
+      warnings.push(`The product data sheet could not be created: ${reason(error)}`)
+      errorPageCount++
+      productInfoFailed = true
     }
+    const productInfoPageCount = finalPdf.getPageCount() - productInfoStart
+    finishStep()
 
     const submittalAndProductInfoPageCount = finalPdf.getPageCount()
     const tocPageIndex = submittalAndProductInfoPageCount
 
-    // 3. Add document sections first (without TOC)
+    // 3. Add document sections first (without TOC). Positions are tracked
+    // relative to the first body page until the TOC length is known.
+    // Documents are downloaded and parsed a few ahead of the one being merged,
+    // with the signed URLs for all of them requested at once.
     const documentSections: DocumentSection[] = []
-    let currentPageNumber = submittalAndProductInfoPageCount + 2 // +2 because TOC will be inserted at position after submittal pages
+    const bodyOffsets: number[] = []
+    const signedUrls = await this.getDocumentUrls(sortedDocs.map(doc => doc.document.url))
+    const sourceLoads: Promise<PDFDocument>[] = []
+    const startLoad = (index: number) => {
+      if (index >= sortedDocs.length || signal?.aborted) return
+      startStep('fetching', `Fetching document ${index + 1} of ${sortedDocs.length}`)
+      const load = this.loadSourceDocument(sortedDocs[index].document, signedUrls, signal)
+      // Fetching counts as done either way; a failed load is reported when its
+      // document is merged
+      load.finally(finishStep).catch(() => undefined)
+      sourceLoads[index] = load
+    }
+    signal?.throwIfAborted()
+    for (let index = 0; index < SOURCE_PREFETCH_LIMIT; index++) startLoad(index)
 
-    for (const doc of sortedDocs) {
+    for (const [index, doc] of sortedDocs.entries()) {
+      const position = `${index + 1}/${sortedDocs.length}`
+      const sectionStart = finalPdf.getPageCount()
       try {
-        console.log(`Processing document: ${doc.document.name}`)
-        const sectionStartPage = currentPageNumber
+        const sourcePdf = await sourceLoads[index]
+        signal?.throwIfAborted()
+        startStep('merging', `Merging document ${index + 1} of ${sortedDocs.length}: ${doc.document.name}`)
+        console.log(`Merging document ${position}: ${doc.document.name}`)
+        const bodyOffset = sectionStart - submittalAndProductInfoPageCount
 
         // Add section divider
-        await this.addSectionDivider(finalPdf, doc.document.name, doc.document.type)
-        currentPageNumber++
-
-        // Get signed URL and download the document
-        const signedUrl = await this.getDocumentUrl(doc.document.url)
-        console.log(`Fetching PDF from: ${signedUrl}`)
-
-        const pdfBytes = await this.getPdfBytes(signedUrl)
-        const sourcePdf = await PDFDocument.load(pdfBytes)
-        const pageIndices = sourcePdf.getPageIndices()
-        const pages = await finalPdf.copyPages(sourcePdf, pageIndices)
-        pages.forEach(page => finalPdf.addPage(page))
-
-        currentPageNumber += pages.length
+        const dividerPage = this.addSectionDivider(finalPdf, fonts, csiSection, paper, doc.document.name)
+        const pages = await addSourcePages(
+          finalPdf,
+          sourcePdf,
+          formData.pageSizeMode ?? 'original',
+          paper.size
+        )
 
         documentSections.push({
           name: doc.document.name,
           type: doc.document.type,
-          startPage: sectionStartPage,
-          pageCount: pages.length + 1
+          startPage: 0,
+          pageReference: '',
+          pageCount: pages.length + 1,
+          outline: readSourceOutline(sourcePdf),
+          dividerPage
         })
+        bodyOffsets.push(bodyOffset)
 
-        console.log(`Added ${pages.length} pages from ${doc.document.name}`)
+        console.log(`Added ${pages.length} pages from document ${position}`)
       } catch (error) {
-        console.error(`Error processing document ${doc.document.name}:`, error)
-        await this.addErrorPage(finalPdf, doc.document.name, 'Failed to process document')
-        currentPageNumber++
+        // Cancelling is not a document failure
+        signal?.throwIfAborted()
+        console.error(`Error processing document ${position} (${doc.document.name}):`, error)
+        // A divider or pages copied before the failure belong to no section
+        this.removePagesFrom(finalPdf, sectionStart)
+        this.addErrorPage(finalPdf, fonts, csiSection, paper, doc.document.name, 'Failed to process document')
+        failedDocuments.push({ name: doc.document.name, reason: reason(error) })
+        errorPageCount++
+      } finally {
+        // Free the parsed source and keep the same number of documents in flight
+        delete sourceLoads[index]
+        startLoad(index + SOURCE_PREFETCH_LIMIT)
+        finishStep()
       }
     }
 
-    // 4. Now insert TOC with actual document sections (only once)
-    const tocPageNumber = tocPageIndex + 1
-    const tocPage = await this.createTableOfContents(finalPdf, documentSections, tocPageNumber)
-    finalPdf.insertPage(tocPageIndex, tocPage)
-
-    // 5. Add page numbers to specific pages only
-    await this.addSelectivePageNumbers(
-      finalPdf,
-      tocPageIndex,
-      documentSections
-    )
-
-    const pdfBytes = await finalPdf.save()
-    console.log(`Packet generated successfully: ${pdfBytes.length} bytes`)
-
-    return pdfBytes
-  }
-
-  private async addCoverPage(
-    pdf: PDFDocument,
-    projectData: ProjectFormData,
-    selectedDocumentNames: string[],
-    availableDocuments: Document[]
-  ): Promise<void> {
-    let page = pdf.addPage(PageSizes.Letter)
-    const { width, height } = page.getSize()
-    const font = await pdf.embedFont(StandardFonts.Helvetica)
-    const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
-
-    // Colors
-    const nexgenBlue = rgb(0, 0.637, 0.792)
-    const darkGray = rgb(0.13, 0.13, 0.13)
-    const mediumGray = rgb(0.27, 0.27, 0.27)
-    const headerDark = rgb(0.078, 0.078, 0.078)
-
-    // Dark header bar
-    page.drawRectangle({
-      x: 0,
-      y: height - 80,
-      width: width,
-      height: 80,
-      color: headerDark,
-    })
-
-    // Logo placeholder
-    page.drawText('NEXGEN', {
-      x: 50,
-      y: height - 45,
-      size: 18,
-      font: boldFont,
-      color: rgb(1, 1, 1),
-    })
+    signal?.throwIfAborted()
+    startStep('numbering', 'Adding the table of contents and page numbers')
 
-    // Section identifier
-    const sectionText = 'SECTION 06 16 26'
-    page.drawText(sectionText, {
-      x: width - 145,
-      y: height - 45,
-      size: 10,
-      font: boldFont,
-      color: rgb(1, 1, 1),
-    })
-
-    // Title
-    const titleColor = rgb(0.094, 0.094, 0.098)
-    const isStructuralFloor = projectData.productType === 'structural-floor'
-
-    if (isStructuralFloor) {
-      page.drawText('MAXTERRA® MgO Non-Combustible Structural', {
-        x: 55,
-        y: height - 147,
-        size: 18,
-        font: font,
-        color: titleColor,
+    // 4. Place and number the pages for a given TOC length: fix the 1-based
+    // start page of every section and the page reference the TOC shows for it
+    const numbering = formData.pageNumbering ?? defaultPageNumbering
+    const bodyPageCount = finalPdf.getPageCount() - submittalAndProductInfoPageCount
+    const numberPages = (tocPageCount: number) => {
+      documentSections.forEach((section, index) => {
+        section.startPage = submittalAndProductInfoPageCount + tocPageCount + bodyOffsets[index] + 1
       })
-      page.drawText('Floor Panels Submittal Form', {
-        x: 55,
-        y: height - 167,
-        size: 18,
-        font: font,
-        color: titleColor,
-      })
-    } else {
-      page.drawText('MAXTERRA® MgO Non-Combustible', {
-        x: 55,
-        y: height - 147,
-        size: 18,
-        font: font,
-        color: titleColor,
-      })
-      page.drawText('Underlayment Panels Submittal Form', {
-        x: 55,
-        y: height - 167,
-        size: 18,
-        font: font,
-        color: titleColor,
+      const packetPages = this.describePages(
+        submittalAndProductInfoPageCount,
+        tocPageCount,
+        bodyPageCount,
+        documentSections
+      )
+      const labels = labelPages(packetPages, numbering)
+      documentSections.forEach(section => {
+        section.pageReference = this.sectionReference(section, labels, numbering)
       })
+      return { packetPages, labels }
     }
 
-    // Form fields
-    let currentY = height - 210
-    const labelX = 55
-    const valueX = 155
-    const fieldHeight = 22
-    const fieldWidth = width - valueX - 55
-    const fieldSpacing = 4
-
-    const drawFormField = (label: string, value: string, y: number) => {
-      page.drawText(label, {
-        x: labelX,
-        y: y + 6,
-        size: 10,
-        font: boldFont,
-        color: darkGray,
-      })
-
-      page.drawRectangle({
-        x: valueX,
-        y: y,
-        width: fieldWidth,
-        height: fieldHeight,
-        color: rgb(0.95, 0.95, 0.95),
-        borderColor: rgb(0.9, 0.9, 0.9),
-        borderWidth: 0.5,
-      })
-
-      page.drawText(value || '', {
-        x: valueX + 10,
-        y: y + 6,
-        size: 10,
-        font: font,
-        color: rgb(0, 0, 0),
-      })
+    // The TOC's page column is sized from the labels, so measuring and drawing
+    // wrap the names the same way. A longer TOC moves every section and can widen
+    // the labels, which rewraps the names: repeat until the TOC length settles.
+    let tocPageCount = 1
+    let numbered = numberPages(tocPageCount)
+    let pageColumnWidth = this.tocPageColumnWidth(documentSections, fonts)
+    for (let pass = 0; pass < MAX_TOC_LAYOUT_PASSES; pass++) {
+      const measured = this.measureTableOfContents(documentSections, fonts, csiSection, paper, pageColumnWidth)
+      if (measured === tocPageCount) break
+      tocPageCount = measured
+      numbered = numberPages(tocPageCount)
+      pageColumnWidth = Math.max(pageColumnWidth, this.tocPageColumnWidth(documentSections, fonts))
     }
 
-    drawFormField('Submitted To', projectData.submittedTo, currentY)
-    currentY -= (fieldHeight + fieldSpacing)
-
-    drawFormField('Project Name', projectData.projectName, currentY)
-    currentY -= (fieldHeight + fieldSpacing)
+    // 5. Insert the TOC with the actual document sections
+    const drawTableOfContents = () =>
+      this.createTableOfContents(
+        finalPdf,
+        fonts,
+        csiSection,
+        paper,
+        documentSections,
+        pageColumnWidth,
+        tocPageIndex
+      )
+    let tocPages = drawTableOfContents()
+    if (tocPages.length !== tocPageCount) {
+      // The passes ran out before the length settled: number the packet for the
+      // TOC as drawn, then draw it again with those page references
+      tocPages.forEach(() => finalPdf.removePage(tocPageIndex))
+      tocPageCount = tocPages.length
+      numbered = numberPages(tocPageCount)
+      pageColumnWidth = Math.max(pageColumnWidth, this.tocPageColumnWidth(documentSections, fonts))
+      tocPages = drawTableOfContents()
+      if (tocPages.length !== tocPageCount) {
+        numbered = numberPages(tocPages.length)
+        warnings.push('The table of contents changed length while it was laid out, so its page references may be off')
+      }
+    }
+    const { packetPages, labels } = numbered
+    setNamedDestination(finalPdf, TOC_DESTINATION, tocPages[0])
 
-    drawFormField('Project Number', projectData.projectNumber || '', currentY)
-    currentY -= (fieldHeight + fieldSpacing)
+    // 6. Bookmark every part of the packet
+    writeOutline(
+      finalPdf,
+      this.buildOutline(submittalFormPageCount, tocPageIndex, documentSections)
+    )
 
-    drawFormField('Prepared By', projectData.preparedBy, currentY)
-    currentY -= (fieldHeight + fieldSpacing)
+    // 7. Stamp the running header and footer onto the merged source pages
+    const stamping = formData.pageStamp?.enabled ?? false
+    if (stamping) {
+      this.stampSourcePages(finalPdf, fonts, formData, documentSections, labels, numbering, warnings)
+    }
 
-    drawFormField('Email Address', projectData.emailAddress, currentY)
-    currentY -= (fieldHeight + fieldSpacing)
+    // 8. Print the page numbers of the chosen scheme. Stamped source pages
+    // already carry theirs in the footer band.
+    this.addPageNumbers(finalPdf, fonts, paper, packetPages, labels, numbering, stamping)
+
+    finishStep()
+
+    const report: PacketReport = {
+      sections: [
+        {
+          name: 'Submittal Form',
+          startPage: submittalFormStart + 1,
+          pageCount: submittalFormPageCount,
+          errorPage: submittalFormFailed || undefined
+        },
+        {
+          name: 'Product Information',
+          startPage: productInfoStart + 1,
+          pageCount: productInfoPageCount,
+          errorPage: productInfoFailed || undefined
+        },
+        { name: 'Table of Contents', startPage: tocPageIndex + 1, pageCount: tocPages.length },
+        ...documentSections.map(section => ({
+          name: section.name,
+          startPage: section.startPage,
+          pageCount: section.pageCount
+        }))
+      ],
+      failedDocuments,
+      warnings,
+      errorPageCount,
+      pageCount: finalPdf.getPageCount()
+    }
 
-    drawFormField('Phone Number', projectData.phoneNumber, currentY)
-    currentY -= (fieldHeight + fieldSpacing)
+    if (options.strict && errorPageCount > 0) {
+      throw new PacketGenerationError(
+        `The packet would contain ${errorPageCount} error page${errorPageCount === 1 ? '' : 's'}`,
+        report
+      )
+    }
 
-    drawFormField('Date', projectData.date, currentY)
-    currentY -= (fieldHeight + 15)
+    signal?.throwIfAborted()
+    startStep('saving', 'Saving the packet')
+    const pdfBytes = await finalPdf.save()
+    finishStep()
+    startStep('done', 'Packet ready')
+    console.log(`Packet generated successfully: ${pdfBytes.length} bytes`)
 
-    // Status/Action checkboxes
-    page.drawText('Status / Action', {
-      x: labelX,
-      y: currentY,
-      size: 10,
-      font: boldFont,
-      color: darkGray,
-    })
-    currentY -= 10
+    return { bytes: pdfBytes, report }
+  }
 
-    const checkboxSize = 12
-    const checkboxSpacing = 130
-    let checkboxX = valueX
+  private buildOutline(
+    submittalFormPageCount: number,
+    tocPageIndex: number,
+    sections: DocumentSection[]
+  ): OutlineEntry[] {
+    const toEntries = (entries: SourceOutlineEntry[], firstPageIndex: number): OutlineEntry[] =>
+      entries.map(entry => ({
+        title: entry.title,
+        pageIndex: firstPageIndex + entry.pageOffset,
+        children: toEntries(entry.children, firstPageIndex)
+      }))
+
+    const outline: OutlineEntry[] = [
+      { title: 'Submittal Form', pageIndex: 0 },
+      { title: 'Product Information', pageIndex: submittalFormPageCount },
+      { title: 'Table of Contents', pageIndex: tocPageIndex }
+    ]
 
-    const drawCheckbox = (label: string, checked: boolean, x: number, y: number) => {
-      page.drawRectangle({
-        x: x,
-        y: y,
-        width: checkboxSize,
-        height: checkboxSize,
-        color: rgb(0.95, 0.95, 0.95),
-        borderColor: rgb(0.9, 0.9, 0.9),
-        borderWidth: 0.5,
+    sections.forEach(section => {
+      // startPage is 1-based and points at the divider; source pages follow it
+      const dividerIndex = section.startPage - 1
+      outline.push({
+        title: section.name,
+        pageIndex: dividerIndex,
+        children: toEntries(section.outline, dividerIndex + 1)
       })
+    })
 
-      if (checked) {
-        page.drawText('X', {
-          x: x + 3,
-          y: y + 2,
-          size: 9,
-          font: boldFont,
-          color: nexgenBlue,
-        })
-      }
+    return outline
+  }
 
-      page.drawText(label, {
-        x: x + checkboxSize + 5,
-        y: y + 2,
-        size: 10,
-        font: font,
-        color: rgb(0, 0, 0),
-      })
-    }
+  // Every string the generated pages can print: theme, product and data sheet
+  // content, what the user entered, and the fixed labels and page numbers
+  private packetTexts(
+    formData: ProjectFormData,
+    product: Product,
+    csiSection: CsiSection,
+    documentNames: string[]
+  ): string[] {
+    const dataSheet = getProductDefinition(product.id)
+    const sheetSections = dataSheet ? [dataSheet.intro, ...dataSheet.sections, ...dataSheet.closingSections] : []
+    const stamp = formData.pageStamp
+
+    return [
+      FIXED_TEXT,
+      this.theme.logo.text,
+      this.theme.version,
+      ...this.theme.footerLines,
+      product.formTitle,
+      product.fullName,
+      csiSection.number,
+      csiSection.title,
+      csiSection.division,
+      formData.submittedTo,
+      formData.projectName,
+      formData.projectNumber || '',
+      formData.preparedBy,
+      formData.emailAddress,
+      formData.phoneNumber,
+      formData.date,
+      formData.productSize,
+      stamp?.enabled ? stamp.submittalNumber : '',
+      (formData.pageNumbering ?? defaultPageNumbering).prefix,
+      ...documentNames,
+      ...product.submittalCategories.map(category => category.label),
+      ...Object.values(formData.submittalCategoryText ?? {}),
+      ...sheetSections.flatMap(section => [section.heading, ...section.paragraphs]),
+      ...(dataSheet?.properties ?? []).flatMap(property => [
+        property.label,
+        property.standard ?? '',
+        ...property.values.map(value => formatSheetText(value, false)),
+      ]),
+    ]
+  }
 
-    drawCheckbox('For Review', projectData.status.forReview, checkboxX, currentY + 3)
-    drawCheckbox('For Approval', projectData.status.forApproval, checkboxX + checkboxSpacing, currentY + 3)
-    currentY -= 18
-    drawCheckbox('For Record', projectData.status.forRecord, checkboxX, currentY + 3)
-    drawCheckbox('For Information Only', projectData.status.forInformationOnly, checkboxX + checkboxSpacing, currentY + 3)
-
-    currentY -= 30
-
-    // Submittal Type section
-    page.drawText('Submittal Type (check all that apply):', {
-      x: labelX,
-      y: currentY,
-      size: 15,
-      font: boldFont,
-      color: darkGray,
-    })
-    currentY -= 20
+  private async embedFonts(pdf: PDFDocument, texts: string[]): Promise<PageFonts> {
+    return embedPacketFonts(pdf, texts.filter(Boolean), this.theme.fonts)
+  }
 
-    // Draw all available documents with checkmarks for selected ones
-    const minYForContent = 100
-    let currentPage = page
-    const checkboxLineSpacing = 14
+  // Missing or unreadable artwork leaves the headers on the logo text and
+  // returns false
+  private async embedLogo(pdf: PDFDocument): Promise<boolean> {
+    const { imageUrl } = this.theme.logo
+    if (!imageUrl) return true
 
-    for (let i = 0; i < availableDocuments.length; i++) {
-      const doc = availableDocuments[i]
-      const isSelected = selectedDocumentNames.includes(doc.name)
+    try {
+      const response = await fetch(imageUrl)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch logo: ${response.statusText}`)
+      }
+      const bytes = new Uint8Array(await response.arrayBuffer())
+      // JPEG files start with FF D8, anything else is expected to be a PNG
+      const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8
+      this.logos.set(pdf, isJpeg ? await pdf.embedJpg(bytes) : await pdf.embedPng(bytes))
+      return true
+    } catch (error) {
+      console.warn('Could not load logo image, using logo text:', error)
+      return false
+    }
+  }
 
-      if (currentY < minYForContent) {
-        currentPage = pdf.addPage(PageSizes.Letter)
-        currentY = height - 140
+  // A packet-level override wins over the product's own section. The division is
+  // only kept from the product when the override stays in the same division.
+  private resolveCsiSection(product: Product, formData: ProjectFormData): CsiSection {
+    const productSection = product.csiSection
+    const override = formData.csiSectionOverride
+    const number = override?.number.trim() || productSection.number
+    const isProductSection = number === productSection.number
+    const divisionCode = number.slice(0, 2)
+
+    return {
+      number,
+      title: override?.title.trim() || (isProductSection ? productSection.title : ''),
+      division: divisionCode === productSection.number.slice(0, 2)
+        ? productSection.division
+        : `Division ${divisionCode}`,
+    }
+  }
 
-        // Add header to new page
-        currentPage.drawRectangle({
+  // Shared page template: dark header bar with the logo on the left and the CSI
+  // section block on the right, identical on every generated page
+  private createTemplate(fonts: PageFonts, csiSection: CsiSection, paper: PacketPaper): PageTemplate {
+    const { left, right } = paper.margin
+    return {
+      size: paper.size,
+      margin: paper.margin,
+      decorate: page => {
+        const { width, height } = page.getSize()
+
+        page.drawRectangle({
           x: 0,
           y: height - 80,
           width: width,
           height: 80,
-          color: headerDark,
+          color: this.colors.headerBackground,
         })
 
-        currentPage.drawText('NEXGEN', {
-          x: 50,
-          y: height - 45,
-          size: 18,
-          font: boldFont,
-          color: rgb(1, 1, 1),
+        const logo = this.logos.get(page.doc)
+        if (logo) {
+          // Centered vertically in the bar and kept to the left half like the text logo
+          const size = logo.scaleToFit(width / 2 - left - 50, 28)
+          page.drawImage(logo, {
+            x: left,
+            y: height - 40 - size.height / 2,
+            width: size.width,
+            height: size.height,
+          })
+        } else {
+          page.drawText(this.theme.logo.text, {
+            x: left,
+            y: height - 45,
+            size: 18,
+            font: fonts.bold,
+            color: this.colors.headerText,
+          })
+        }
+
+        const headerLines: [string, PDFFont, number, number][] = [
+          [`SECTION ${csiSection.number}`, fonts.bold, 10, height - 33],
+          [csiSection.title, fonts.regular, 8, height - 46],
+          [csiSection.division, fonts.regular, 7, height - 58],
+        ]
+        headerLines.forEach(([text, font, size, y]) => {
+          if (!text) return
+          // Keep clear of the logo on the left half of the bar
+          const line = truncateText(text, font, size, width / 2 - right)
+          page.drawText(line, {
+            x: width - right - font.widthOfTextAtSize(line, size),
+            y,
+            size,
+            font,
+            color: this.colors.headerText,
+          })
+        })
+      },
+    }
+  }
+
+  private addCoverPage(
+    pdf: PDFDocument,
+    fonts: PageFonts,
+    csiSection: CsiSection,
+    paper: PacketPaper,
+    product: Product,
+    projectData: ProjectFormData,
+    selectedDocumentNames: string[],
+    availableDocuments: Document[]
+  ): void {
+    const { regular: font, bold: boldFont } = fonts
+
+    const template = this.createTemplate(fonts, csiSection, paper)
+
+    renderLayout(pdf, template, cursor => {
+      const labelX = cursor.left
+      const valueX = cursor.left + 100
+      const fieldHeight = 22
+      const fieldSpacing = 4
+      const checkboxSize = 12
+      const checkboxSpacing = 130
+      const checkboxLineSpacing = 14
+      const checkboxIndent = 20
+
+      const checkboxLabelLines = (label: string, maxWidth: number) =>
+        wrapText(label, font, 10, maxWidth - checkboxSize - 5)
+
+      // Labels wrap below the first line; y is the bottom of the checkbox square
+      const drawCheckbox = (
+        page: PDFPage,
+        label: string,
+        checked: boolean,
+        x: number,
+        y: number,
+        maxWidth: number
+      ) => {
+        page.drawRectangle({
+          x: x,
+          y: y,
+          width: checkboxSize,
+          height: checkboxSize,
+          color: this.colors.fieldFill,
+          borderColor: this.colors.fieldBorder,
+          borderWidth: 0.5,
+        })
+
+        if (checked) {
+          page.drawText('X', {
+            x: x + 3,
+            y: y + 2,
+            size: 9,
+            font: boldFont,
+            color: this.colors.accent,
+          })
+        }
+
+        checkboxLabelLines(label, maxWidth).forEach((line, index) => {
+          page.drawText(line, {
+            x: x + checkboxSize + 5,
+            y: y + 2 - index * checkboxLineSpacing,
+            size: 10,
+            font: font,
+            color: this.colors.black,
+          })
         })
       }
 
-      const checkboxY = currentY
-      currentPage.drawRectangle({
-        x: labelX,
-        y: checkboxY,
-        width: checkboxSize,
-        height: checkboxSize,
-        color: rgb(0.95, 0.95, 0.95),
-        borderColor: rgb(0.9, 0.9, 0.9),
-        borderWidth: 0.5,
-      })
+      // Title
+      cursor.moveDown(29)
+      cursor.text(product.formTitle, { font, size: 18, lineHeight: 20, color: this.colors.title })
+      cursor.moveDown(25)
+
+      // Form fields
+      const drawFormField = (label: string, value: string) => {
+        cursor.box(fieldHeight + fieldSpacing, (page, box) => {
+          const y = box.y + fieldSpacing
+
+          page.drawText(label, {
+            x: labelX,
+            y: y + 6,
+            size: 10,
+            font: boldFont,
+            color: this.colors.text,
+          })
+
+          page.drawRectangle({
+            x: valueX,
+            y: y,
+            width: cursor.right - valueX,
+            height: fieldHeight,
+            color: this.colors.fieldFill,
+            borderColor: this.colors.fieldBorder,
+            borderWidth: 0.5,
+          })
+
+          // Long values shrink first, then wrap onto a second line inside the box
+          const fitted = fitText(value || '', font, {
+            maxWidth: cursor.right - valueX - 20,
+            maxSize: 10,
+            minSize: 7,
+            maxLines: 2,
+          })
+          const lineY = fitted.lines.length === 1 ? [y + 6] : [y + 12.5, y + 4]
+          fitted.lines.forEach((line, index) => {
+            page.drawText(line, {
+              x: valueX + 10,
+              y: lineY[index],
+              size: fitted.size,
+              font: font,
+              color: this.colors.black,
+            })
+          })
+        })
+      }
 
-      if (isSelected) {
-        currentPage.drawText('X', {
-          x: labelX + 3,
-          y: checkboxY + 2,
-          size: 9,
-          font: boldFont,
-          color: nexgenBlue,
+      drawFormField('Submitted To', projectData.submittedTo)
+      drawFormField('Project Name', projectData.projectName)
+      drawFormField('Project Number', projectData.projectNumber || '')
+      drawFormField('Prepared By', projectData.preparedBy)
+      drawFormField('Email Address', projectData.emailAddress)
+      drawFormField('Phone Number', projectData.phoneNumber)
+      drawFormField('Date', projectData.date)
+      cursor.moveDown(11)
+
+      // Status/Action checkboxes
+      cursor.text('Status / Action', { font: boldFont, size: 10, lineHeight: 12, color: this.colors.text })
+
+      const drawCheckboxRow = (left: [string, boolean], right: [string, boolean]) => {
+        cursor.box(18, (page, box) => {
+          drawCheckbox(page, left[0], left[1], valueX, box.y + 3, checkboxSpacing)
+          drawCheckbox(page, right[0], right[1], valueX + checkboxSpacing, box.y + 3, cursor.right - valueX - checkboxSpacing)
         })
       }
 
-      currentPage.drawText(doc.name, {
-        x: labelX + checkboxSize + 5,
-        y: checkboxY + 2,
-        size: 10,
-        font: font,
-        color: rgb(0, 0, 0),
+      drawCheckboxRow(['For Review', projectData.status.forReview], ['For Approval', projectData.status.forApproval])
+      drawCheckboxRow(['For Record', projectData.status.forRecord], ['For Information Only', projectData.status.forInformationOnly])
+      cursor.moveDown(20)
+
+      // Submittal Type section
+      cursor.text('Submittal Type (check all that apply):', {
+        font: boldFont,
+        size: 15,
+        lineHeight: 22,
+        color: this.colors.text,
       })
 
-      currentY -= checkboxLineSpacing
-    }
+      // Categories with children head a group with their items indented below,
+      // one step per level. Products without categories list the available
+      // documents, checking the selected ones.
+      const checklistItem = (category: SubmittalCategory, indent: number): ChecklistRow => {
+        const text = category.freeText ? projectData.submittalCategoryText?.[category.id]?.trim() ?? '' : undefined
+        return {
+          label: category.label,
+          checked: projectData.submittalCategories.includes(category.id) || !!text,
+          indent,
+          text,
+        }
+      }
+      const checklistRows = (groups: SubmittalCategoryGroup[], indent: number): ChecklistRow[] =>
+        groups.flatMap(({ category, children }) =>
+          children.length > 0
+            ? [{ label: category.label, header: true, indent }, ...checklistRows(children, indent + checkboxIndent)]
+            : [checklistItem(category, indent)]
+        )
+      const checklist: ChecklistRow[] = product.submittalCategories.length > 0
+        ? checklistRows(groupSubmittalCategories(product.submittalCategories), 0)
+        : availableDocuments.map(doc => ({ label: doc.name, checked: selectedDocumentNames.includes(doc.name), indent: 0 }))
+
+      const columns = checklist.length > CHECKLIST_TWO_COLUMN_ROWS ? 2 : 1
+      const columnGap = 20
+      const columnWidth = (cursor.width - columnGap * (columns - 1)) / columns
+      const headerSpacing = 6
+
+      const rowHeight = (row: ChecklistRow) => {
+        if (row.header) return checkboxLineSpacing + headerSpacing
+        if (row.text !== undefined) return checkboxLineSpacing
+        return checkboxLineSpacing * checkboxLabelLines(row.label, columnWidth - row.indent).length
+      }
+      const rowsHeight = (rows: ChecklistRow[]) => rows.reduce((sum, row) => sum + rowHeight(row), 0)
+
+      const drawChecklistRows = (page: PDFPage, rows: ChecklistRow[], x: number, top: number) => {
+        let rowTop = top
+        rows.forEach(row => {
+          const rowX = x + row.indent
+          const maxWidth = columnWidth - row.indent
+          const checkboxY = rowTop - checkboxLineSpacing + 2
+
+          if (row.header) {
+            page.drawText(truncateText(row.label, boldFont, 10, maxWidth), {
+              x: rowX,
+              y: rowTop - rowHeight(row) + 4,
+              size: 10,
+              font: boldFont,
+              color: this.colors.text,
+            })
+          } else if (row.text !== undefined) {
+            // 'Other: ____' with the entered text on the line
+            const label = checkboxLabelLines(`${row.label}:`, maxWidth)[0]
+            drawCheckbox(page, label, !!row.checked, rowX, checkboxY, maxWidth)
+            const lineX = rowX + checkboxSize + 5 + font.widthOfTextAtSize(label, 10) + 4
+            const lineEnd = x + columnWidth
+            page.drawLine({
+              start: { x: lineX, y: checkboxY - 1 },
+              end: { x: lineEnd, y: checkboxY - 1 },
+              thickness: 0.5,
+              color: this.colors.fieldBorder,
+            })
+            if (row.text) {
+              page.drawText(truncateText(row.text, font, 10, lineEnd - lineX - 4), {
+                x: lineX + 2,
+                y: checkboxY + 2,
+                size: 10,
+                font: font,
+                color: this.colors.black,
+              })
+            }
+          } else {
+            drawCheckbox(page, row.label, !!row.checked, rowX, checkboxY, maxWidth)
+          }
+
+          rowTop -= rowHeight(row)
+        })
+      }
 
-    currentY -= 10
+      // Rows for one column, from start: at least target high when the rows allow,
+      // never more than limit. Group headers never end a column.
+      const takeRows = (start: number, target: number, limit: number) => {
+        let end = start
+        let height = 0
+        while (end < checklist.length && height < target && height + rowHeight(checklist[end]) <= limit) {
+          height += rowHeight(checklist[end])
+          end++
+        }
+        while (end - start > 1 && end < checklist.length && checklist[end - 1].header) end--
+        return end
+      }
 
-    // Product section
-    if (currentY < minYForContent + 100) {
-      currentPage = pdf.addPage(PageSizes.Letter)
-      currentY = height - 140
+      // A row with the headers it starts and the first item below them
+      const leadHeight = (start: number) => {
+        let end = start
+        while (end < checklist.length - 1 && checklist[end].header) end++
+        return rowsHeight(checklist.slice(start, end + 1))
+      }
 
-      currentPage.drawRectangle({
-        x: 0,
-        y: height - 80,
-        width: width,
-        height: 80,
-        color: headerDark,
-      })
+      // Each band fills the rest of a page, or the remaining rows balanced over the columns
+      let next = 0
+      while (next < checklist.length) {
+        cursor.ensureSpace(leadHeight(next))
+        const available = cursor.remaining
+        const share = rowsHeight(checklist.slice(next)) / columns
+
+        const band: ChecklistRow[][] = []
+        for (let column = 0; column < columns && next < checklist.length; column++) {
+          let end = takeRows(next, column < columns - 1 ? Math.min(share, available) : available, available)
+          // A row taller than the page still gets drawn, at the top of a fresh one
+          if (end === next && column === 0) end = next + 1
+          band.push(checklist.slice(next, end))
+          next = end
+        }
+
+        cursor.box(Math.max(...band.map(rowsHeight)), (page, box) => {
+          band.forEach((rows, column) => drawChecklistRows(page, rows, box.x + column * (columnWidth + columnGap), box.y + box.height))
+        })
+      }
+      cursor.moveDown(10)
+
+      // Product section, with the thickness picked on the project form
+      const drawProductLine = (label: string, text: string) => {
+        const lines = wrapText(text, font, 9, cursor.right - valueX)
+        cursor.box(14 + (lines.length - 1) * 11, (page, box) => {
+          const firstLineY = box.y + box.height - 10
+          page.drawText(label, {
+            x: labelX,
+            y: firstLineY,
+            size: 10,
+            font: boldFont,
+            color: this.colors.text,
+          })
+          lines.forEach((line, index) => {
+            page.drawText(line, {
+              x: valueX,
+              y: firstLineY - index * 11,
+              size: 9,
+              font: font,
+              color: this.colors.text,
+            })
+          })
+        })
+      }
 
-      currentPage.drawText('NEXGEN', {
-        x: 50,
-        y: height - 45,
-        size: 18,
-        font: boldFont,
-        color: rgb(1, 1, 1),
-      })
-    }
+      drawProductLine('Product:', product.fullName)
+      if (projectData.productSize) drawProductLine('Thickness:', projectData.productSize)
+
+      // Footer on the last page of the form
+      const { footerLines, version } = this.theme
+      cursor.bottomBox(12 * footerLines.length + 12, (page, box) => {
+        // The company name leads the footer in bold, followed by contact lines
+        footerLines.forEach((text, index) => {
+          const isCompanyName = index === 0
+          const lineFont = isCompanyName ? boldFont : font
+          const size = isCompanyName ? 9 : 8
+          page.drawText(truncateText(text, lineFont, size, cursor.width), {
+            x: labelX,
+            y: box.y + box.height - 12 * (index + 1),
+            size,
+            font: lineFont,
+            color: isCompanyName ? this.colors.text : this.colors.secondaryText,
+          })
+        })
 
-    currentPage.drawText('Product:', {
-      x: labelX,
-      y: currentY,
-      size: 10,
-      font: boldFont,
-      color: darkGray,
+        const versionText = truncateText(version, font, 7, cursor.width)
+        const versionWidth = font.widthOfTextAtSize(versionText, 7)
+        page.drawText(versionText, {
+          x: cursor.right - versionWidth,
+          y: box.y - 10,
+          size: 7,
+          font: font,
+          color: this.colors.secondaryText,
+        })
+      })
     })
+  }
 
-    const productText = isStructuralFloor
-      ? 'MAXTERRA® MgO Non-Combustible Structural Floor Panels'
-      : 'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels'
+  // Products without built-in data sheet content get a title page with the approval stamp
+  private addProductInfoPage(
+    pdf: PDFDocument,
+    fonts: PageFonts,
+    csiSection: CsiSection,
+    paper: PacketPaper,
+    product: Product
+  ): void {
+    const { regular: font, bold: boldFont } = fonts
+    const dataSheet = getProductDefinition(product.id)
+
+    renderLayout(pdf, this.createTemplate(fonts, csiSection, paper), cursor => {
+      const bodyStyle = { font, size: 9, lineHeight: 12, color: this.colors.text }
+
+      const drawSection = (section: ProductSheetSection) => {
+        // Keep a heading together with the start of its first paragraph
+        cursor.ensureSpace(16 + bodyStyle.lineHeight * 2)
+        cursor.text(section.heading, { font: boldFont, size: 11, lineHeight: 16, color: this.colors.accent })
+        section.paragraphs.forEach(paragraph => {
+          cursor.text(paragraph, bodyStyle)
+          cursor.moveDown(4)
+        })
+        cursor.moveDown(6)
+      }
 
-    currentPage.drawText(productText, {
-      x: valueX,
-      y: currentY,
-      size: 9,
-      font: font,
-      color: darkGray,
-    })
+      cursor.text('PRODUCT DATA SHEET', { font: boldFont, size: 10, lineHeight: 16, color: this.colors.accent })
+      cursor.text(product.fullName, { font: boldFont, size: 16, lineHeight: 20, color: this.colors.heading })
+      cursor.moveDown(12)
 
-    // Footer
-    const footerY = 120
-    currentPage.drawText('NEXGEN® Building Products, LLC', {
-      x: labelX,
-      y: footerY,
-      size: 9,
-      font: boldFont,
-      color: darkGray,
-    })
-    currentPage.drawText('1504 Manhattan Ave West, #300 Brandon, FL 34205', {
-      x: labelX,
-      y: footerY - 12,
-      size: 8,
-      font: font,
-      color: mediumGray,
-    })
-    currentPage.drawText('(727) 634-5534', {
-      x: labelX,
-      y: footerY - 24,
-      size: 8,
-      font: font,
-      color: mediumGray,
-    })
-    currentPage.drawText('Technical Support: support@nexgenbp.com', {
-      x: labelX,
-      y: footerY - 36,
-      size: 8,
-      font: font,
-      color: mediumGray,
-    })
+      if (dataSheet) {
+        drawSection(dataSheet.intro)
+        dataSheet.sections.forEach(drawSection)
 
-    const versionText = 'Version 1.0 October 2025 © 2025 NEXGEN Building Products'
-    const versionWidth = font.widthOfTextAtSize(versionText, 7)
-    currentPage.drawText(versionText, {
-      x: width - versionWidth - 50,
-      y: 50,
-      size: 7,
-      font: font,
-      color: mediumGray,
-    })
-  }
+        this.drawPropertyTable(cursor, fonts, paper, dataSheet.properties)
+        cursor.moveDown(16)
 
-  private async addProductInfoPage(pdf: PDFDocument, projectData: ProjectFormData): Promise<void> {
-    const page = pdf.addPage(PageSizes.Letter)
-    const { width, height } = page.getSize()
-    const font = await pdf.embedFont(StandardFonts.Helvetica)
-    const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
-
-    const isStructuralFloor = projectData.productType === 'structural-floor'
-    const headerDark = rgb(0.078, 0.078, 0.078)
-
-    // Dark header bar
-    page.drawRectangle({
-      x: 0,
-      y: height - 80,
-      width: width,
-      height: 80,
-      color: headerDark,
-    })
+        dataSheet.closingSections.forEach(drawSection)
+        cursor.moveDown(6)
+      }
 
-    page.drawText('NEXGEN', {
-      x: 50,
-      y: height - 45,
-      size: 18,
-      font: boldFont,
-      color: rgb(1, 1, 1),
+      this.drawApprovalStamp(cursor, fonts)
     })
+  }
 
-    const sectionText = isStructuralFloor ? 'SECTION 06 16 23' : 'SECTION 06 16 26'
-    page.drawText(sectionText, {
-      x: width - 145,
-      y: height - 45,
-      size: 10,
-      font: boldFont,
-      color: rgb(1, 1, 1),
+  // Two-column property table; the header row is repeated when the table continues on a new page
+  private drawPropertyTable(
+    cursor: LayoutCursor,
+    fonts: PageFonts,
+    paper: PacketPaper,
+    properties: ProductProperty[]
+  ): void {
+    const { regular: font, bold: boldFont } = fonts
+    const padding = 6
+    const lineHeight = 11
+    const headerHeight = 18
+    const labelWidth = cursor.width * 0.4
+    const valueX = cursor.left + labelWidth
+
+    const rows = properties.map(property => {
+      const labelLines = wrapText(property.label, boldFont, 9, labelWidth - padding * 2)
+      const standardLines = property.standard
+        ? wrapText(`(${property.standard})`, font, 8, labelWidth - padding * 2)
+        : []
+      const valueLines = property.values.flatMap(value =>
+        wrapText(formatSheetText(value, paper.metricFirst), font, 9, cursor.width - labelWidth - padding * 2)
+      )
+      const lineCount = Math.max(labelLines.length + standardLines.length, valueLines.length)
+      return { labelLines, standardLines, valueLines, height: lineCount * lineHeight + padding * 2 }
     })
 
-    // Add content based on product type
-    const margin = 50
-    let currentY = height - 100
+    const drawHeader = () => {
+      cursor.box(headerHeight, (page, box) => {
+        page.drawRectangle({ ...box, color: this.colors.headerBackground })
+        const headerStyle = { y: box.y + 6, size: 9, font: boldFont, color: this.colors.headerText }
+        page.drawText('Property', { ...headerStyle, x: box.x + padding })
+        page.drawText('Value', { ...headerStyle, x: valueX + padding })
+      })
+    }
 
-    page.drawText('Product Information', {
-      x: margin,
-      y: currentY,
-      size: 16,
-      font: boldFont,
-      color: rgb(0.302, 0.298, 0.298),
-    })
+    cursor.ensureSpace(16 + headerHeight + (rows[0]?.height ?? 0))
+    cursor.text('Product Properties', { font: boldFont, size: 11, lineHeight: 16, color: this.colors.accent })
+    drawHeader()
 
-    currentY -= 30
+    rows.forEach((row, index) => {
+      if (row.height > cursor.remaining) {
+        cursor.newPage()
+        drawHeader()
+      }
 
-    const productName = isStructuralFloor
-      ? 'MAXTERRA® MgO Non-Combustible Structural Floor Panels'
-      : 'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels'
+      cursor.box(row.height, (page, box) => {
+        page.drawRectangle({
+          ...box,
+          color: index % 2 === 0 ? this.colors.white : this.colors.fieldFill,
+          borderColor: this.colors.fieldBorder,
+          borderWidth: 0.5,
+        })
+        page.drawLine({
+          start: { x: valueX, y: box.y },
+          end: { x: valueX, y: box.y + box.height },
+          thickness: 0.5,
+          color: this.colors.fieldBorder,
+        })
 
-    page.drawText(productName, {
-      x: margin,
-      y: currentY,
-      size: 12,
-      font: boldFont,
-      color: rgb(0, 0, 0),
+        const firstLineY = box.y + box.height - padding - 8
+        row.labelLines.forEach((line, lineIndex) => {
+          page.drawText(line, {
+            x: box.x + padding,
+            y: firstLineY - lineIndex * lineHeight,
+            size: 9,
+            font: boldFont,
+            color: this.colors.text,
+          })
+        })
+        row.standardLines.forEach((line, lineIndex) => {
+          page.drawText(line, {
+            x: box.x + padding,
+            y: firstLineY - (row.labelLines.length + lineIndex) * lineHeight,
+            size: 8,
+            font,
+            color: this.colors.mutedText,
+          })
+        })
+        row.valueLines.forEach((line, lineIndex) => {
+          page.drawText(line, {
+            x: valueX + padding,
+            y: firstLineY - lineIndex * lineHeight,
+            size: 9,
+            font,
+            color: this.colors.black,
+          })
+        })
+      })
     })
   }
 
-  private async createTableOfContents(
-    pdf: PDFDocument,
-    sections: DocumentSection[],
-    tocPageNumber: number
-  ): Promise<PDFPage> {
-    const page = pdf.addPage(PageSizes.Letter)
-    const { width, height } = page.getSize()
-    const font = await pdf.embedFont(StandardFonts.Helvetica)
-    const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
-    const headerDark = rgb(0.078, 0.078, 0.078)
-
-    // Dark header bar
-    page.drawRectangle({
-      x: 0,
-      y: height - 80,
-      width: width,
-      height: 80,
-      color: headerDark,
-    })
+  // Remarks area next to the Architect/Engineer review stamp, kept together on one page
+  private drawApprovalStamp(cursor: LayoutCursor, fonts: PageFonts): void {
+    const { regular: font, bold: boldFont } = fonts
+    const gap = 20
+    const columnWidth = (cursor.width - gap) / 2
+    const checkboxSize = 10
+    const reviewOptions = ['Approved', 'Approval as Noted', 'Revise & Resubmit', 'Rejected']
+    const signatureFields = ['Signature', 'Date']
+
+    cursor.box(150, (page, box) => {
+      const top = box.y + box.height
+      const stampX = box.x + columnWidth + gap
+
+      const drawHeading = (text: string, x: number) => {
+        page.drawText(text, { x, y: top - 11, size: 11, font: boldFont, color: this.colors.accent })
+      }
 
-    page.drawText('NEXGEN', {
-      x: 50,
-      y: height - 45,
-      size: 18,
-      font: boldFont,
-      color: rgb(1, 1, 1),
-    })
+      // Remarks
+      drawHeading('Remarks', box.x)
+      page.drawRectangle({
+        x: box.x,
+        y: box.y,
+        width: columnWidth,
+        height: box.height - 20,
+        color: this.colors.fieldFill,
+        borderColor: this.colors.fieldBorder,
+        borderWidth: 0.5,
+      })
 
-    page.drawText('Table of Contents', {
-      x: width - 180,
-      y: height - 45,
-      size: 11,
-      font: boldFont,
-      color: rgb(1, 1, 1),
-    })
+      // Approvals stamp
+      drawHeading('Approvals', stampX)
+      page.drawRectangle({
+        x: stampX,
+        y: box.y,
+        width: columnWidth,
+        height: box.height - 20,
+        borderColor: this.colors.headerBackground,
+        borderWidth: 1,
+      })
+      page.drawText('Architect/Engineer Review', {
+        x: stampX + 10,
+        y: top - 38,
+        size: 10,
+        font: boldFont,
+        color: this.colors.text,
+      })
 
-    let currentY = height - 110
-    const margin = 50
-    const lineHeight = 25
+      reviewOptions.forEach((option, index) => {
+        const x = stampX + 10 + (index % 2) * (columnWidth / 2)
+        const y = top - 60 - Math.floor(index / 2) * 18
+        page.drawRectangle({
+          x,
+          y,
+          width: checkboxSize,
+          height: checkboxSize,
+          color: this.colors.fieldFill,
+          borderColor: this.colors.secondaryText,
+          borderWidth: 0.5,
+        })
+        page.drawText(truncateText(option, font, 9, columnWidth / 2 - checkboxSize - 15), {
+          x: x + checkboxSize + 5,
+          y: y + 2,
+          size: 9,
+          font,
+          color: this.colors.black,
+        })
+      })
 
-    page.drawText('Table of Contents', {
-      x: margin,
-      y: currentY,
-      size: 18,
-      font: boldFont,
-      color: rgb(0.094, 0.094, 0.098),
+      signatureFields.forEach((label, index) => {
+        const y = box.y + 34 - index * 22
+        const lineStart = stampX + 65
+        page.drawText(label, { x: stampX + 10, y, size: 9, font: boldFont, color: this.colors.text })
+        page.drawLine({
+          start: { x: lineStart, y: y - 2 },
+          end: { x: stampX + columnWidth - 10, y: y - 2 },
+          thickness: 0.5,
+          color: this.colors.secondaryText,
+        })
+      })
     })
-    currentY -= 30
+  }
 
-    sections.forEach((section) => {
-      if (currentY < 100) return
+  // Room for the widest page reference, so names never run into it
+  private tocPageColumnWidth(sections: DocumentSection[], fonts: PageFonts): number {
+    const widest = Math.max(0, ...sections.map(s => fonts.bold.widthOfTextAtSize(s.pageReference, 11)))
+    return Math.max(70, widest + 24)
+  }
 
-      page.drawText(section.name, {
-        x: margin,
-        y: currentY,
-        size: 11,
-        font: font,
-        color: rgb(0, 0, 0),
+  private layoutTableOfContents(sections: DocumentSection[], fonts: PageFonts, pageColumnWidth: number) {
+    const lineHeight = 25
+    const nameLineHeight = 14
+
+    return (cursor: LayoutCursor) => {
+      cursor.text('Table of Contents', {
+        font: fonts.bold,
+        size: 18,
+        lineHeight: 30,
+        color: this.colors.title,
       })
 
-      page.drawText(`Page ${section.startPage}`, {
-        x: width - 90,
-        y: currentY,
-        size: 11,
-        font: boldFont,
-        color: rgb(0, 0, 0),
+      sections.forEach(section => {
+        const pageText = section.pageReference
+        const nameLines = wrapText(section.name, fonts.regular, 11, cursor.width - pageColumnWidth)
+        const rowHeight = lineHeight + (nameLines.length - 1) * nameLineHeight
+
+        cursor.box(rowHeight, (page, box) => {
+          // The whole row is tappable, not just the page number
+          addInternalLink(page, box, section.dividerPage)
+
+          const firstLineY = box.y + box.height - lineHeight + 8
+          nameLines.forEach((line, index) => {
+            page.drawText(line, {
+              x: box.x,
+              y: firstLineY - index * nameLineHeight,
+              size: 11,
+              font: fonts.regular,
+              color: this.colors.black,
+            })
+          })
+
+          page.drawText(pageText, {
+            x: box.x + box.width - fonts.bold.widthOfTextAtSize(pageText, 11),
+            y: firstLineY,
+            size: 11,
+            font: fonts.bold,
+            color: this.colors.black,
+          })
+        })
       })
+    }
+  }
 
-      currentY -= lineHeight
-    })
+  private measureTableOfContents(
+    sections: DocumentSection[],
+    fonts: PageFonts,
+    csiSection: CsiSection,
+    paper: PacketPaper,
+    pageColumnWidth: number
+  ): number {
+    return measureLayout(
+      this.createTemplate(fonts, csiSection, paper),
+      this.layoutTableOfContents(sections, fonts, pageColumnWidth)
+    )
+  }
 
-    return page
+  private createTableOfContents(
+    pdf: PDFDocument,
+    fonts: PageFonts,
+    csiSection: CsiSection,
+    paper: PacketPaper,
+    sections: DocumentSection[],
+    pageColumnWidth: number,
+    insertAt: number
+  ): PDFPage[] {
+    return renderLayout(
+      pdf,
+      this.createTemplate(fonts, csiSection, paper),
+      this.layoutTableOfContents(sections, fonts, pageColumnWidth),
+      insertAt
+    )
   }
 
-  private async addSectionDivider(
+  private addSectionDivider(
     pdf: PDFDocument,
-    documentName: string,
-    documentType: string
-  ): Promise<void> {
-    const page = pdf.addPage(PageSizes.Letter)
-    const { width, height } = page.getSize()
-    const font = await pdf.embedFont(StandardFonts.Helvetica)
-    const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
-    const headerDark = rgb(0.078, 0.078, 0.078)
-
-    page.drawRectangle({
-      x: 0,
-      y: height - 80,
-      width: width,
-      height: 80,
-      color: headerDark,
-    })
+    fonts: PageFonts,
+    csiSection: CsiSection,
+    paper: PacketPaper,
+    documentName: string
+  ): PDFPage {
+    const [page] = renderLayout(pdf, this.createTemplate(fonts, csiSection, paper), cursor => {
+      const centerY = cursor.template.size[1] / 2
+
+      // Long names shrink and wrap onto up to three centered lines
+      const fitted = fitText(documentName, fonts.bold, {
+        maxWidth: cursor.width,
+        maxSize: 40,
+        minSize: 20,
+        maxLines: 3,
+      })
+      const lineHeight = fitted.size * 1.2
+
+      // Center the block of lines around the vertical middle of the page
+      const blockHeight = fitted.lines.length * lineHeight
+      cursor.moveDown(cursor.y - (centerY + blockHeight / 2 + fitted.size * 0.25))
+      fitted.lines.forEach(line => {
+        cursor.text(line, {
+          font: fonts.bold,
+          size: fitted.size,
+          lineHeight,
+          align: 'center',
+          color: this.colors.text,
+        })
+      })
 
-    page.drawText('NEXGEN', {
-      x: 50,
-      y: height - 45,
-      size: 18,
-      font: boldFont,
-      color: rgb(1, 1, 1),
-    })
+      cursor.box(20, (page, box) => {
+        const lineWidth = 200
+        const lineX = box.x + (box.width - lineWidth) / 2
+        page.drawLine({
+          start: { x: lineX, y: box.y },
+          end: { x: lineX + lineWidth, y: box.y },
+          thickness: 2,
+          color: this.colors.accent,
+        })
+      })
 
-    page.drawText('Document Section', {
-      x: width - 180,
-      y: height - 45,
-      size: 11,
-      font: font,
-      color: rgb(1, 1, 1),
+      cursor.bottomBox(0, (page, box) => {
+        const backText = 'Back to contents'
+        const backSize = 10
+        const backWidth = fonts.regular.widthOfTextAtSize(backText, backSize)
+        const backY = box.y - 30
+
+        page.drawText(backText, {
+          x: box.x,
+          y: backY,
+          size: backSize,
+          font: fonts.regular,
+          color: this.colors.accent,
+        })
+        page.drawLine({
+          start: { x: box.x, y: backY - 2 },
+          end: { x: box.x + backWidth, y: backY - 2 },
+          thickness: 0.5,
+          color: this.colors.accent,
+        })
+        addInternalLink(
+          page,
+          { x: box.x - 4, y: backY - 6, width: backWidth + 8, height: 20 },
+          TOC_DESTINATION
+        )
+      })
     })
 
-    const centerY = height / 2
-    const nameSize = 40
-    const nameWidth = boldFont.widthOfTextAtSize(documentName, nameSize)
-
-    page.drawText(documentName, {
-      x: (width - nameWidth) / 2,
-      y: centerY,
-      size: nameSize,
-      font: boldFont,
-      color: rgb(0.13, 0.13, 0.13),
-    })
+    return page
+  }
 
-    const lineWidth = 200
-    page.drawLine({
-      start: { x: (width - lineWidth) / 2, y: centerY - 30 },
-      end: { x: (width + lineWidth) / 2, y: centerY - 30 },
-      thickness: 2,
-      color: rgb(0, 0.637, 0.792),
-    })
+  private removePagesFrom(pdf: PDFDocument, index: number): void {
+    while (pdf.getPageCount() > index) {
+      pdf.removePage(pdf.getPageCount() - 1)
+    }
   }
 
-  private async addErrorPage(
+  private addErrorPage(
     pdf: PDFDocument,
+    fonts: PageFonts,
+    csiSection: CsiSection,
+    paper: PacketPaper,
     documentName: string,
     errorMessage: string
-  ): Promise<void> {
-    const page = pdf.addPage(PageSizes.Letter)
-    const { width, height } = page.getSize()
-    const font = await pdf.embedFont(StandardFonts.Helvetica)
-    const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold)
-
-    page.drawText('DOCUMENT ERROR', {
-      x: 50,
-      y: height - 100,
-      size: 16,
-      font: boldFont,
-      color: rgb(0.8, 0.2, 0.2),
+  ): void {
+    renderLayout(pdf, this.createTemplate(fonts, csiSection, paper), cursor => {
+      cursor.text('DOCUMENT ERROR', {
+        font: fonts.bold,
+        size: 16,
+        lineHeight: 50,
+        color: this.colors.error,
+      })
+      cursor.text(documentName, { font: fonts.bold, size: 14, lineHeight: 30 })
+      cursor.text(`Error: ${errorMessage}`, {
+        font: fonts.regular,
+        size: 12,
+        lineHeight: 40,
+        color: this.colors.errorText,
+      })
+      cursor.text('Please contact support if this error persists.', {
+        font: fonts.regular,
+        size: 10,
+        color: this.colors.mutedText,
+      })
     })
+  }
 
-    page.drawText(documentName, {
-      x: 50,
-      y: height - 150,
-      size: 14,
-      font: boldFont,
-      color: rgb(0, 0, 0),
-    })
+  // Overlay the project name, submittal number and packet page number on every
+  // page copied from a source document
+  private stampSourcePages(
+    pdf: PDFDocument,
+    fonts: PageFonts,
+    formData: ProjectFormData,
+    sections: DocumentSection[],
+    labels: (string | undefined)[],
+    numbering: PageNumberingOptions,
+    warnings: string[]
+  ): void {
+    const { submittalNumber, bands } = formData.pageStamp!
+    const pages = pdf.getPages()
+    const submittal = submittalNumber.trim() ? `Submittal No. ${submittalNumber.trim()}` : ''
+    const style = { fonts, color: this.colors.secondaryText, ruleColor: this.colors.fieldBorder }
+    let scaledCount = 0
+    const failedPages: number[] = []
 
-    page.drawText(`Error: ${errorMessage}`, {
-      x: 50,
-      y: height - 180,
-      size: 12,
-      font: font,
-      color: rgb(0.6, 0.2, 0.2),
+    sections.forEach(section => {
+      // startPage is 1-based and points at the divider; source pages follow it
+      const firstIndex = section.startPage
+      const lastIndex = section.startPage - 1 + section.pageCount - 1
+
+      for (let index = firstIndex; index <= lastIndex && index < pages.length; index++) {
+        // Source pages numbered by the scheme show that number, the others their sheet count
+        const label = labels[index]
+        const pageLabel = label ? pageReference(label, numbering) : `Page ${index + 1} of ${pages.length}`
+        const stamp: PageStamp = bands === 'both'
+          ? {
+              header: { left: formData.projectName, right: submittal },
+              footer: { left: section.name, right: pageLabel },
+            }
+          : { [bands]: { left: formData.projectName, center: submittal, right: pageLabel } }
+
+        try {
+          if (stampPage(pages[index], stamp, style)) scaledCount++
+        } catch (error) {
+          console.error(`Error stamping page ${index + 1}:`, error)
+          failedPages.push(index + 1)
+        }
+      }
     })
 
-    page.drawText('Please contact support if this error persists.', {
-      x: 50,
-      y: height - 220,
-      size: 10,
-      font: font,
-      color: rgb(0.4, 0.4, 0.4),
-    })
+    console.log(`Stamped source pages, ${scaledCount} scaled to clear the margins`)
+    if (scaledCount > 0) {
+      warnings.push(`${scaledCount} document page${scaledCount === 1 ? ' was' : 's were'} scaled down to make room for the page stamp`)
+    }
+    if (failedPages.length > 0) {
+      warnings.push(`The page stamp could not be added to page${failedPages.length === 1 ? '' : 's'} ${failedPages.join(', ')}`)
+    }
   }
 
-  private async addSelectivePageNumbers(
-    pdf: PDFDocument,
-    submittalAndProductInfoPageCount: number,
+  // Classify every page of the finished packet. Error pages stand in for a
+  // failed document and are left undescribed, so they are never numbered.
+  private describePages(
+    frontPageCount: number,
+    tocPageCount: number,
+    bodyPageCount: number,
     sections: DocumentSection[]
-  ): Promise<void> {
-    const pages = pdf.getPages()
-    const font = await pdf.embedFont(StandardFonts.Helvetica)
-
-    let globalPageNumber = 1
+  ): (PacketPage | undefined)[] {
+    const pages: (PacketPage | undefined)[] = new Array(frontPageCount + tocPageCount + bodyPageCount)
+    pages.fill({ pageClass: 'cover' }, 0, frontPageCount)
+    pages.fill({ pageClass: 'toc' }, frontPageCount, frontPageCount + tocPageCount)
+
+    sections.forEach((section, index) => {
+      const dividerIndex = section.startPage - 1
+      pages[dividerIndex] = { pageClass: 'divider', section: index }
+      for (let offset = 1; offset < section.pageCount; offset++) {
+        pages[dividerIndex + offset] = { pageClass: 'source', section: index }
+      }
+    })
 
-    // Add page numbers to Submittal Form + Product Info pages
-    for (let i = 0; i < submittalAndProductInfoPageCount && i < pages.length; i++) {
-      const page = pages[i]
-      const { width } = page.getSize()
-      page.drawText(`${globalPageNumber}`, {
-        x: width - 50,
-        y: 30,
-        size: 10,
-        font: font,
-        color: rgb(0.4, 0.4, 0.4),
-      })
-      globalPageNumber++
-    }
+    return pages
+  }
 
-    // Add page number to Table of Contents
-    if (pages.length > submittalAndProductInfoPageCount) {
-      const tocPage = pages[submittalAndProductInfoPageCount]
-      const { width } = tocPage.getSize()
-      tocPage.drawText(`${globalPageNumber}`, {
-        x: width - 50,
-        y: 30,
-        size: 10,
-        font: font,
-        color: rgb(0.4, 0.4, 0.4),
-      })
-      globalPageNumber++
-    }
+  // The TOC points at the first numbered page of a section, normally its divider
+  private sectionReference(
+    section: DocumentSection,
+    labels: (string | undefined)[],
+    numbering: PageNumberingOptions
+  ): string {
+    const sectionLabels = labels.slice(section.startPage - 1, section.startPage - 1 + section.pageCount)
+    const label = sectionLabels.find(Boolean)
+    return label ? pageReference(label, numbering) : ''
+  }
 
-    // Add page numbers to Section Dividers only
-    let currentIndex = submittalAndProductInfoPageCount + 1
-    sections.forEach(section => {
-      if (currentIndex < pages.length) {
-        const dividerPage = pages[currentIndex]
-        const { width } = dividerPage.getSize()
-        dividerPage.drawText(`${globalPageNumber}`, {
-          x: width - 50,
-          y: 30,
-          size: 10,
-          font: font,
-          color: rgb(0.4, 0.4, 0.4),
-        })
-        globalPageNumber++
+  private addPageNumbers(
+    pdf: PDFDocument,
+    fonts: PageFonts,
+    paper: PacketPaper,
+    packetPages: (PacketPage | undefined)[],
+    labels: (string | undefined)[],
+    numbering: PageNumberingOptions,
+    sourcePagesStamped: boolean
+  ): void {
+    const pages = pdf.getPages()
 
-        // Skip the actual document pages
-        currentIndex += section.pageCount
-      }
+    labels.forEach((label, index) => {
+      const pageClass = packetPages[index]?.pageClass
+      if (!label || !pageClass || index >= pages.length) return
+      if (pageClass === 'source' && sourcePagesStamped) return
+
+      const page = pages[index]
+      // Source pages may be rotated, so positions are taken on the page as displayed
+      const { width, height } = getDisplayedSize(page)
+      const text = `${numbering.prefix}${label}`
+      const generated = pageClass !== 'source'
+
+      // Top-right numbers on generated pages sit in the header bar, under the CSI section
+      const onHeaderBar = numbering.position === 'top-right' && generated
+      const size = onHeaderBar ? 8 : 10
+      const textWidth = fonts.regular.widthOfTextAtSize(text, size)
+
+      drawUprightText(page, text, {
+        x: numbering.position === 'bottom-center' ? (width - textWidth) / 2 : width - paper.margin.right - textWidth,
+        y: numbering.position !== 'top-right' ? 30 : onHeaderBar ? height - 72 : height - 30,
+        size,
+        font: fonts.regular,
+        color: onHeaderBar ? this.colors.headerText : this.colors.mutedText,
+      })
     })
   }
 
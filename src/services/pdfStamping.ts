@@ -0,0 +1,559 @@
+import {
+  PDFArray,
+  PDFContentStream,
+  PDFDict,
+  PDFFont,
+  PDFName,
+  PDFPage,
+  PDFRawStream,
+  PDFStream,
+  RGB,
+  concatTransformationMatrix,
+  decodePDFRawStream,
+  degrees,
+  popGraphicsState,
+  pushGraphicsState,
+} from 'pdf-lib'
+import {
+  IDENTITY,
+  getPageFrame,
+  invert,
+  multiply,
+  readNumbers,
+  transformBounds,
+  transformAnnotations,
+  transformPoint,
+  union,
+} from './pdfGeometry'
+import type { Bounds, Matrix, PageFrame } from './pdfGeometry'
+import { truncateText } from './pdfLayout'
+import type { PageFonts } from './pdfLayout'
+
+// Text for one band. Without a center slot the band is split between left and right.
+export interface StampBand {
+  left?: string
+  center?: string
+  right?: string
+}
+
+export interface PageStamp {
+  header?: StampBand
+  footer?: StampBand
+}
+
+export interface StampStyle {
+  fonts: PageFonts
+  color: RGB
+  ruleColor: RGB
+}
+
+export interface UprightTextOptions {
+  x: number
+  y: number
+  size: number
+  font: PDFFont
+  color: RGB
+}
+
+// Names are kept as strings; string operands are skipped, as the text they show
+// is not measured
+type Operand = number | string | Operand[] | null
+
+// The parts of the graphics state the measure follows, restored by Q
+interface GraphicsState {
+  ctm: Matrix
+  fontSize: number
+  leading: number
+}
+
+const BAND_HEIGHT = 22
+const BAND_MARGIN = 36
+const BAND_TEXT_SIZE = 8
+// Content must stay this far from a band. Text is measured by its em box at
+// the text position, so glyphs reaching past it are covered by the clearance.
+const BAND_CLEARANCE = 2
+const MAX_FORM_DEPTH = 4
+// Long tokens are decoded in chunks that fit in the arguments of one call
+const DECODE_CHUNK_SIZE = 8192
+// Fills covering this much of the page are backgrounds, not content
+const BACKGROUND_COVERAGE = 0.9
+
+const UNIT_SQUARE: Bounds = { minX: 0, minY: 0, maxX: 1, maxY: 1 }
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20])
+const DELIMITERS = new Set(Array.from('()<>[]{}/%').map(c => c.charCodeAt(0)))
+const NUMBER_START = new Set(Array.from('+-.0123456789').map(c => c.charCodeAt(0)))
+
+/**
+ * Overlay running header and footer bands on a page copied from a source
+ * document. When existing content reaches into a band, the page content is
+ * scaled down just enough to clear the bands. Returns whether it was scaled.
+ */
+export function stampPage(page: PDFPage, stamp: PageStamp, style: StampStyle): boolean {
+  const frame = getPageFrame(page)
+  const top = stamp.header ? BAND_HEIGHT : 0
+  const bottom = stamp.footer ? BAND_HEIGHT : 0
+
+  const scaled = collidesWithBands(page, frame, top, bottom)
+  if (scaled) shrinkContent(page, frame, top, bottom)
+
+  if (stamp.header) {
+    drawBand(page, frame, stamp.header, frame.height - BAND_HEIGHT, frame.height - BAND_HEIGHT, style)
+  }
+  if (stamp.footer) {
+    drawBand(page, frame, stamp.footer, 0, BAND_HEIGHT, style)
+  }
+
+  return scaled
+}
+
+/**
+ * Size of the page as it is displayed, after /Rotate
+ */
+export function getDisplayedSize(page: PDFPage): { width: number; height: number } {
+  const { width, height } = getPageFrame(page)
+  return { width, height }
+}
+
+/**
+ * Draw text the right way up on the page as it is displayed. x and y are
+ * measured from the bottom-left corner of the displayed crop box.
+ */
+export function drawUprightText(page: PDFPage, text: string, options: UprightTextOptions): void {
+  const frame = getPageFrame(page)
+  const [x, y] = transformPoint(frame.toPage, options.x, options.y)
+  page.drawText(text, {
+    x,
+    y,
+    size: options.size,
+    font: options.font,
+    color: options.color,
+    rotate: degrees(frame.rotation),
+  })
+}
+
+function collidesWithBands(page: PDFPage, frame: PageFrame, top: number, bottom: number): boolean {
+  let bounds: Bounds | undefined
+  try {
+    bounds = measureContent(page)
+  } catch (error) {
+    // Content that cannot be read may well reach the margins
+    console.warn('Could not measure page content, scaling it to be safe:', error)
+    return true
+  }
+  if (!bounds) return false
+
+  const displayed = transformBounds(invert(frame.toPage), bounds)
+  return (top > 0 && displayed.maxY > frame.height - top - BAND_CLEARANCE) ||
+    (bottom > 0 && displayed.minY < bottom + BAND_CLEARANCE)
+}
+
+function shrinkContent(page: PDFPage, frame: PageFrame, top: number, bottom: number): void {
+  // Worked out on the displayed page: keep it centered horizontally and fit it between the bands
+  const scale = (frame.height - top - bottom) / frame.height
+  const shrink: Matrix = [scale, 0, 0, scale, (frame.width * (1 - scale)) / 2, bottom]
+  const transform = multiply(multiply(invert(frame.toPage), shrink), frame.toPage)
+
+  const context = page.doc.context
+  page.node.normalize()
+  const start = context.contentStream([pushGraphicsState(), concatTransformationMatrix(...transform)])
+  const end = context.contentStream([popGraphicsState()])
+  page.node.wrapContentStreams(context.register(start), context.register(end))
+
+  // Links and other annotations move with the content
+  transformAnnotations(page, transform)
+}
+
+function drawBand(
+  page: PDFPage,
+  frame: PageFrame,
+  band: StampBand,
+  bandY: number,
+  ruleY: number,
+  style: StampStyle
+): void {
+  const { fonts, color, ruleColor } = style
+  const slotWidth = (frame.width - BAND_MARGIN * 2) / (band.center ? 3 : 2) - 8
+  const textY = bandY + (BAND_HEIGHT - BAND_TEXT_SIZE) / 2 + 1
+
+  const drawSlot = (value: string | undefined, font: PDFFont, align: 'left' | 'center' | 'right') => {
+    if (!value) return
+    const text = truncateText(value, font, BAND_TEXT_SIZE, slotWidth)
+    const textWidth = font.widthOfTextAtSize(text, BAND_TEXT_SIZE)
+    const x = align === 'left'
+      ? BAND_MARGIN
+      : align === 'center'
+        ? (frame.width - textWidth) / 2
+        : frame.width - BAND_MARGIN - textWidth
+
+    drawUprightText(page, text, { x, y: textY, size: BAND_TEXT_SIZE, font, color })
+  }
+
+  drawSlot(band.left, fonts.bold, 'left')
+  drawSlot(band.center, fonts.regular, 'center')
+  drawSlot(band.right, fonts.regular, 'right')
+
+  const [startX, startY] = transformPoint(frame.toPage, BAND_MARGIN, ruleY)
+  const [endX, endY] = transformPoint(frame.toPage, frame.width - BAND_MARGIN, ruleY)
+  page.drawLine({
+    start: { x: startX, y: startY },
+    end: { x: endX, y: endY },
+    thickness: 0.5,
+    color: ruleColor,
+  })
+}
+
+/**
+ * Approximate area covered by the page's text, paths and images, clipped to
+ * the crop box: the bounds of the points the operators draw at, with text taken
+ * as an em square at each text position. Returns undefined for a blank page.
+ */
+function measureContent(page: PDFPage): Bounds | undefined {
+  const { x, y, width, height } = page.getCropBox()
+  const measure = new ContentMeasure({ minX: x, minY: y, maxX: x + width, maxY: y + height })
+  measure.scan(readContents(page.node.Contents()), page.node.Resources(), IDENTITY, 0)
+  return measure.bounds
+}
+
+class ContentMeasure {
+  bounds?: Bounds
+
+  constructor(private clip: Bounds) {}
+
+  scan(data: Uint8Array, resources: PDFDict | undefined, matrix: Matrix, depth: number): void {
+    const states: GraphicsState[] = []
+    let state: GraphicsState = { ctm: matrix, fontSize: 0, leading: 0 }
+    let textMatrix = IDENTITY
+    let lineMatrix = IDENTITY
+    let path: Bounds | undefined
+
+    const addPoint = (x: number, y: number) => {
+      const [px, py] = transformPoint(state.ctm, x, y)
+      path = union(path, { minX: px, minY: py, maxX: px, maxY: py })
+    }
+
+    const paintPath = (fill: boolean) => {
+      const { clip } = this
+      const isBackground = fill && path &&
+        path.maxX - path.minX >= (clip.maxX - clip.minX) * BACKGROUND_COVERAGE &&
+        path.maxY - path.minY >= (clip.maxY - clip.minY) * BACKGROUND_COVERAGE
+      if (path && !isBackground) this.mark(path)
+      path = undefined
+    }
+
+    const nextLine = (tx: number, ty: number) => {
+      lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix)
+      textMatrix = lineMatrix
+    }
+
+    const showText = () => {
+      const { fontSize } = state
+      const render = multiply(textMatrix, state.ctm)
+      this.mark(transformBounds(render, { minX: 0, minY: -fontSize * 0.25, maxX: fontSize, maxY: fontSize }))
+    }
+
+    const tokens = tokenize(data)
+    let operands: Operand[] = []
+
+    for (const token of tokens) {
+      if (token.type === 'operand') {
+        operands.push(token.value)
+        continue
+      }
+
+      const n = (index: number) => {
+        const value = operands[index]
+        return typeof value === 'number' ? value : 0
+      }
+
+      switch (token.value) {
+        case 'q':
+          states.push(state)
+          break
+        case 'Q':
+          state = states.pop() ?? state
+          break
+        case 'cm':
+          state = { ...state, ctm: multiply([n(0), n(1), n(2), n(3), n(4), n(5)], state.ctm) }
+          break
+        case 'BT':
+          textMatrix = IDENTITY
+          lineMatrix = IDENTITY
+          break
+        case 'Tf':
+          state = { ...state, fontSize: n(1) }
+          break
+        case 'TL':
+          state = { ...state, leading: n(0) }
+          break
+        case 'Td':
+          nextLine(n(0), n(1))
+          break
+        case 'TD':
+          state = { ...state, leading: -n(1) }
+          nextLine(n(0), n(1))
+          break
+        case 'Tm':
+          lineMatrix = [n(0), n(1), n(2), n(3), n(4), n(5)]
+          textMatrix = lineMatrix
+          break
+        case 'T*':
+          nextLine(0, -state.leading)
+          break
+        case 'Tj':
+        case 'TJ':
+          showText()
+          break
+        case "'":
+        case '"':
+          nextLine(0, -state.leading)
+          showText()
+          break
+        case 'm':
+        case 'l':
+          addPoint(n(0), n(1))
+          break
+        case 'c':
+          addPoint(n(0), n(1))
+          addPoint(n(2), n(3))
+          addPoint(n(4), n(5))
+          break
+        case 'v':
+        case 'y':
+          addPoint(n(0), n(1))
+          addPoint(n(2), n(3))
+          break
+        case 're':
+          addPoint(n(0), n(1))
+          addPoint(n(0) + n(2), n(1) + n(3))
+          addPoint(n(0), n(1) + n(3))
+          addPoint(n(0) + n(2), n(1))
+          break
+        case 'S':
+        case 's':
+          paintPath(false)
+          break
+        case 'f':
+        case 'F':
+        case 'f*':
+        case 'B':
+        case 'B*':
+        case 'b':
+        case 'b*':
+          paintPath(true)
+          break
+        case 'n':
+          path = undefined
+          break
+        case 'EI':
+          // Inline images occupy the unit square, like image XObjects
+          this.mark(transformBounds(state.ctm, UNIT_SQUARE))
+          break
+        case 'Do':
+          this.drawXObject(operands[0], resources, state.ctm, depth)
+          break
+      }
+
+      operands = []
+    }
+  }
+
+  private drawXObject(name: Operand, resources: PDFDict | undefined, ctm: Matrix, depth: number): void {
+    if (typeof name !== 'string') return
+
+    const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict)
+    const xObject = xObjects?.lookupMaybe(PDFName.of(name), PDFStream)
+    if (!xObject) return
+
+    const subtype = xObject.dict.lookupMaybe(PDFName.of('Subtype'), PDFName)
+    if (subtype === PDFName.of('Image')) {
+      this.mark(transformBounds(ctm, UNIT_SQUARE))
+      return
+    }
+    if (subtype !== PDFName.of('Form')) return
+
+    const [a, b, c, d, e, f] = readNumbers(xObject.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray)) ?? IDENTITY
+    const formCtm = multiply([a, b, c, d, e, f], ctm)
+
+    if (depth >= MAX_FORM_DEPTH) {
+      const bbox = readNumbers(xObject.dict.lookupMaybe(PDFName.of('BBox'), PDFArray))
+      if (bbox && bbox.length >= 4) {
+        this.mark(transformBounds(formCtm, { minX: bbox[0], minY: bbox[1], maxX: bbox[2], maxY: bbox[3] }))
+      }
+      return
+    }
+
+    const formResources = xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources
+    this.scan(decodeStream(xObject), formResources, formCtm, depth + 1)
+  }
+
+  private mark(box: Bounds): void {
+    const { clip } = this
+    if (box.maxX < clip.minX || box.minX > clip.maxX || box.maxY < clip.minY || box.minY > clip.maxY) {
+      return
+    }
+
+    this.bounds = union(this.bounds, {
+      minX: Math.max(box.minX, clip.minX),
+      minY: Math.max(box.minY, clip.minY),
+      maxX: Math.min(box.maxX, clip.maxX),
+      maxY: Math.min(box.maxY, clip.maxY),
+    })
+  }
+}
+
+type Token = { type: 'operand'; value: Operand } | { type: 'operator'; value: string }
+
+/**
+ * Split a content stream into operands and operators. Strings stand in as
+ * null, dictionaries are skipped and inline image data is jumped over.
+ */
+function* tokenize(data: Uint8Array): Generator<Token> {
+  const arrays: Operand[][] = []
+  let i = 0
+
+  const emit = (value: Operand): Token | undefined => {
+    if (arrays.length > 0) {
+      arrays[arrays.length - 1].push(value)
+      return undefined
+    }
+    return { type: 'operand', value }
+  }
+
+  while (i < data.length) {
+    const byte = data[i]
+    let token: Token | undefined
+
+    if (WHITESPACE.has(byte)) {
+      i++
+      continue
+    }
+
+    if (byte === 0x25) {
+      // % comment to the end of the line
+      while (i < data.length && data[i] !== 0x0a && data[i] !== 0x0d) i++
+      continue
+    }
+
+    if (byte === 0x28) {
+      i = skipLiteralString(data, i + 1)
+      token = emit(null)
+    } else if (byte === 0x3c && data[i + 1] === 0x3c) {
+      i += 2
+      continue
+    } else if (byte === 0x3e && data[i + 1] === 0x3e) {
+      i += 2
+      continue
+    } else if (byte === 0x3c) {
+      // < hex string >
+      while (i < data.length && data[i] !== 0x3e) i++
+      i++
+      token = emit(null)
+    } else if (byte === 0x5b) {
+      arrays.push([])
+      i++
+      continue
+    } else if (byte === 0x5d) {
+      i++
+      const array = arrays.pop()
+      if (!array) continue
+      token = emit(array)
+    } else if (byte === 0x2f) {
+      const start = ++i
+      while (i < data.length && !WHITESPACE.has(data[i]) && !DELIMITERS.has(data[i])) i++
+      token = emit(decodeAscii(data, start, i))
+    } else if (NUMBER_START.has(byte)) {
+      const start = i
+      while (i < data.length && NUMBER_START.has(data[i])) i++
+      token = emit(parseFloat(decodeAscii(data, start, i)) || 0)
+    } else if (DELIMITERS.has(byte)) {
+      i++
+      continue
+    } else {
+      const start = i
+      while (i < data.length && !WHITESPACE.has(data[i]) && !DELIMITERS.has(data[i])) i++
+      const keyword = decodeAscii(data, start, i)
+
+      if (keyword === 'true' || keyword === 'false' || keyword === 'null') {
+        token = emit(null)
+      } else if (keyword === 'BI') {
+        i = skipInlineImage(data, i)
+        token = { type: 'operator', value: 'EI' }
+      } else {
+        arrays.length = 0
+        token = { type: 'operator', value: keyword }
+      }
+    }
+
+    if (token) yield token
+  }
+}
+
+// Returns the index just after the EI that ends the inline image starting at index
+function skipInlineImage(data: Uint8Array, index: number): number {
+  let i = index
+  while (i + 2 < data.length && !(data[i] === 0x49 && data[i + 1] === 0x44 && WHITESPACE.has(data[i + 2]))) i++
+  i += 3
+
+  while (i + 2 < data.length) {
+    const isEnd = WHITESPACE.has(data[i]) && data[i + 1] === 0x45 && data[i + 2] === 0x49 &&
+      (i + 3 >= data.length || WHITESPACE.has(data[i + 3]) || DELIMITERS.has(data[i + 3]))
+    if (isEnd) return i + 3
+    i++
+  }
+  return data.length
+}
+
+// Returns the index just after the ( literal string ) starting after its
+// opening parenthesis, with balanced parentheses and backslash escapes
+function skipLiteralString(data: Uint8Array, index: number): number {
+  let depth = 1
+  let i = index
+
+  while (i < data.length) {
+    const byte = data[i++]
+    if (byte === 0x5c) {
+      i++
+    } else if (byte === 0x28) {
+      depth++
+    } else if (byte === 0x29 && --depth === 0) {
+      break
+    }
+  }
+  return i
+}
+
+function decodeAscii(data: Uint8Array, start: number, end: number): string {
+  let text = ''
+  for (let chunk = start; chunk < end; chunk += DECODE_CHUNK_SIZE) {
+    text += String.fromCharCode(...data.subarray(chunk, Math.min(end, chunk + DECODE_CHUNK_SIZE)))
+  }
+  return text
+}
+
+function readContents(contents: PDFStream | PDFArray | undefined): Uint8Array {
+  const streams: PDFStream[] = []
+  if (contents instanceof PDFStream) streams.push(contents)
+  if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) {
+      const stream = contents.lookupMaybe(i, PDFStream)
+      if (stream) streams.push(stream)
+    }
+  }
+
+  // Content streams are one logical stream split at token boundaries
+  const parts = streams.map(decodeStream)
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length + 1, 0))
+  let offset = 0
+  parts.forEach(part => {
+    result.set(part, offset)
+    result[offset + part.length] = 0x0a
+    offset += part.length + 1
+  })
+  return result
+}
+
+function decodeStream(stream: PDFStream): Uint8Array {
+  if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode()
+  if (stream instanceof PDFContentStream) return stream.getUnencodedContents()
+  return new Uint8Array(0)
+}
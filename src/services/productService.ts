@@ -0,0 +1,94 @@
+import { supabase } from './supabaseClient'
+import type { Product, ProductType, SubmittalCategory } from '@/types'
+
+// Columns of the submittal_categories rows embedded in a product
+interface SubmittalCategoryRow {
+  id: string
+  label: string
+  parent_id: string | null
+  free_text: boolean
+  sort_order: number
+}
+
+// Columns of the products table read by the wizard
+interface ProductRow {
+  id: ProductType
+  name: string
+  full_name: string
+  form_title: string
+  csi_section: string
+  csi_title: string | null
+  csi_division: string | null
+  thicknesses: string[] | null
+  sort_order: number
+  submittal_categories: SubmittalCategoryRow[] | null
+}
+
+class ProductService {
+  private productsPromise: Promise<Product[]> | null = null
+
+  // The catalog rarely changes, so it is loaded once and shared by every step
+  async getProducts(): Promise<Product[]> {
+    if (!this.productsPromise) {
+      this.productsPromise = this.fetchProducts()
+    }
+    return this.productsPromise
+  }
+
+  async getProduct(id: ProductType): Promise<Product | null> {
+    const products = await this.getProducts()
+    return products.find(product => product.id === id) || null
+  }
+
+  private async fetchProducts(): Promise<Product[]> {
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*, submittal_categories(id, label, parent_id, free_text, sort_order)')
+        .eq('active', true)
+        .order('sort_order', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching products:', error)
+        this.productsPromise = null
+        return []
+      }
+
+      return ((data || []) as ProductRow[]).map(product => this.toProduct(product))
+    } catch (error) {
+      console.error('Error fetching products:', error)
+      this.productsPromise = null
+      return []
+    }
+  }
+
+  private toProduct(row: ProductRow): Product {
+    return {
+      id: row.id,
+      name: row.name,
+      fullName: row.full_name,
+      formTitle: row.form_title,
+      csiSection: {
+        number: row.csi_section,
+        title: row.csi_title || '',
+        division: row.csi_division || ''
+      },
+      thicknesses: row.thicknesses || [],
+      sortOrder: row.sort_order,
+      submittalCategories: [...(row.submittal_categories || [])]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map(category => this.toSubmittalCategory(category))
+    }
+  }
+
+  private toSubmittalCategory(row: SubmittalCategoryRow): SubmittalCategory {
+    return {
+      id: row.id,
+      label: row.label,
+      parentId: row.parent_id || undefined,
+      freeText: row.free_text || undefined
+    }
+  }
+}
+
+export const productService = new ProductService()
@@ -0,0 +1,55 @@
+import { supabase } from './supabaseClient'
+import { defaultPacketTheme } from '@/data/packetTheme'
+import type { PacketTheme } from '@/types'
+
+const DEFAULT_THEME_ID = 'default'
+
+class ThemeService {
+  // Saved themes may predate newer settings, so they are layered over the defaults
+  private withDefaults(stored: Partial<PacketTheme> | null | undefined): PacketTheme {
+    return {
+      ...defaultPacketTheme,
+      ...stored,
+      colors: { ...defaultPacketTheme.colors, ...stored?.colors },
+      fonts: { ...defaultPacketTheme.fonts, ...stored?.fonts },
+      logo: { ...defaultPacketTheme.logo, ...stored?.logo },
+    }
+  }
+
+  async getTheme(id: string = DEFAULT_THEME_ID): Promise<PacketTheme> {
+    try {
+      const { data, error } = await supabase
+        .from('packet_themes')
+        .select('theme')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching packet theme:', error)
+        return this.withDefaults(null)
+      }
+
+      return this.withDefaults(data?.theme)
+    } catch (error) {
+      console.error('Error fetching packet theme:', error)
+      return this.withDefaults(null)
+    }
+  }
+
+  async saveTheme(theme: PacketTheme, id: string = DEFAULT_THEME_ID): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('packet_themes')
+        .upsert({ id, theme, updated_at: new Date().toISOString() })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    } catch (error) {
+      console.error('Error saving packet theme:', error)
+      throw error instanceof Error ? error : new Error('Failed to save packet theme')
+    }
+  }
+}
+
+export const themeService = new ThemeService()
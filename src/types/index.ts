@@ -1,5 +1,32 @@
-// Product types
-export type ProductType = 'structural-floor' | 'underlayment';
+// Product types: the id of a product in the products catalog, e.g. 'structural-floor'
+export type ProductType = string;
+
+// CSI MasterFormat section a product is specified under
+export interface CsiSection {
+  number: string; // e.g. '06 16 23'
+  title: string;
+  division: string; // e.g. 'Division 06 – Wood, Plastics, and Composites'
+}
+
+export interface Product {
+  id: ProductType;
+  name: string; // Short name, e.g. 'Structural Floor Panel'
+  fullName: string;
+  formTitle: string;
+  csiSection: CsiSection;
+  thicknesses: string[];
+  sortOrder: number;
+  submittalCategories: SubmittalCategory[]; // The submittal form's checklist, in order
+}
+
+// One item of a product's submittal form checklist. A category with children is
+// the header of their group; only categories without children are checked.
+export interface SubmittalCategory {
+  id: string; // Shared by products that list the same category, e.g. 'fire-assembly-03'
+  label: string;
+  parentId?: string;
+  freeText?: boolean; // Printed with the text entered for it, e.g. 'Other: ...'
+}
 
 // Form data types
 export interface ProjectFormData {
@@ -17,31 +44,82 @@ export interface ProjectFormData {
     forRecord: boolean;
     forInformationOnly: boolean;
   };
-  submittalType: {
-    tds: boolean;
-    threePartSpecs: boolean;
-    testReportIccEsr5194: boolean;
-    testReportIccEsr5192: boolean;
-    testReportIccEsl1645: boolean;
-    fireAssembly: boolean;
-    fireAssembly01: boolean;
-    fireAssembly02: boolean;
-    fireAssembly03: boolean;
-    fireAssembly04: boolean;
-    fireAssembly05: boolean;
-    fireAssembly06: boolean;
-    fireAssembly07: boolean;
-    fireAssembly08: boolean;
-    fireAssembly09: boolean;
-    msds: boolean;
-    leedGuide: boolean;
-    installationGuide: boolean;
-    warranty: boolean;
-    samples: boolean;
-    other: boolean;
-    otherText?: string;
-  };
+  // Ids of the product's submittal categories checked on the submittal form. The
+  // categories of the selected documents' tags are added when the packet is built.
+  submittalCategories: string[];
+  submittalCategoryText?: Record<string, string>; // Entered for free-text categories such as Other, by id
   productSize: string;
+  // Replaces the product's CSI section when the project specs it elsewhere
+  csiSectionOverride?: {
+    number: string;
+    title: string;
+  };
+  pageStamp?: PageStampOptions;
+  pageNumbering?: PageNumberingOptions;
+  pageSizeMode?: PageSizeMode;
+  paperSize?: PaperSize;
+}
+
+// Paper the packet is generated on. A4 packets also list panel sizes metric first.
+export type PaperSize = 'letter' | 'a4';
+
+// How pages copied from source documents are sized: as they are, scaled to fit
+// the packet page size, or scaled to fit with landscape pages turned portrait
+export type PageSizeMode = 'original' | 'fit' | 'rotate';
+
+// Running header/footer stamped onto the pages of merged source documents
+export interface PageStampOptions {
+  enabled: boolean;
+  submittalNumber: string;
+  bands: 'header' | 'footer' | 'both';
+}
+
+// Kinds of packet pages. 'cover' covers the submittal form and the product data sheet.
+export type PageClass = 'cover' | 'toc' | 'divider' | 'source';
+
+export interface PageNumberingOptions {
+  pageClasses: PageClass[]; // Pages of other classes are neither numbered nor counted
+  style: 'decimal' | 'roman' | 'section-alpha' | 'section-decimal'; // 1, i, A-1, 3-12
+  position: 'bottom-right' | 'bottom-center' | 'top-right';
+  prefix: string; // Printed before every number, e.g. 'Page '
+}
+
+// Stages of packet generation. Documents are fetched ahead of the one being
+// merged, so 'fetching' and 'merging' updates interleave.
+export type PacketPhase = 'cover' | 'product-info' | 'fetching' | 'merging' | 'numbering' | 'saving' | 'done';
+
+// Reported as each step of packet generation starts; completed counts up to total
+export interface PacketProgress {
+  phase: PacketPhase;
+  message: string; // e.g. 'Fetching document 3 of 25'
+  completed: number;
+  total: number;
+}
+
+// What went into a generated packet and what went wrong on the way
+export interface PacketReport {
+  sections: PacketReportSection[];
+  failedDocuments: FailedDocument[]; // Each one is replaced by an error page
+  warnings: string[];
+  errorPageCount: number; // 'DOCUMENT ERROR' pages in the packet
+  pageCount: number;
+}
+
+export interface PacketReportSection {
+  name: string;
+  startPage: number; // 1-based
+  pageCount: number;
+  errorPage?: boolean; // The part failed and an error page stands in for it
+}
+
+export interface FailedDocument {
+  name: string;
+  reason: string;
+}
+
+export interface PacketResult {
+  bytes: Uint8Array;
+  report: PacketReport;
 }
 
 // Document types
@@ -55,10 +133,21 @@ export interface Document {
   type: string;
   required: boolean;
   products: string[];
-  productType: ProductType; // Single category: 'structural-floor' or 'underlayment'
+  productType: ProductType; // Single category: id of a product in the catalog
+  updatedAt?: string; // Server timestamp of the row; identifies the file version in the local PDF cache
+  tags: string[]; // Ids of the document's tags
   fileData?: string; // Base64 encoded file data (optional, used for worker communication)
 }
 
+// Admin-managed label on documents, e.g. 'ESR-5194'. A tag with a submittal category
+// checks that box of the submittal form whenever a tagged document is in the packet.
+export interface DocumentTag {
+  id: string; // Slug, e.g. 'fire-assembly-03'
+  name: string;
+  submittalCategory?: string; // Id of a SubmittalCategory
+  sortOrder: number;
+}
+
 export interface SelectedDocument {
   id: string;
   document: Document;
@@ -78,3 +167,60 @@ export interface AppState {
 
 // Document type for filtering
 export type DocumentType = 'TDS' | 'ESR' | 'MSDS' | 'LEED' | 'Installation' | 'warranty' | 'Acoustic' | 'PartSpec';
+
+// Product data sheet content
+export interface ProductSheetSection {
+  heading: string;
+  paragraphs: string[];
+}
+
+// A size given in both units, e.g. { imperial: '3/4-inch', metric: '20 mm' }
+export interface PanelSize {
+  imperial: string;
+  metric: string;
+}
+
+// Data sheet text; sizes are printed in the unit order of the packet's paper
+export type SheetText = string | PanelSize | (string | PanelSize)[];
+
+export interface ProductProperty {
+  label: string;
+  standard?: string; // Test method shown under the label, e.g. 'ASTM E84 / UL 723'
+  values: SheetText[];
+}
+
+export interface ProductDefinition {
+  productType: ProductType;
+  intro: ProductSheetSection;
+  sections: ProductSheetSection[];
+  properties: ProductProperty[];
+  closingSections: ProductSheetSection[];
+}
+
+// Branding for generated packet pages. Colors are hex strings such as '#00a2ca'.
+export interface PacketTheme {
+  colors: {
+    accent: string;
+    headerBackground: string;
+    headerText: string;
+    title: string;
+    heading: string;
+    text: string;
+    secondaryText: string;
+    mutedText: string;
+    fieldFill: string;
+    fieldBorder: string;
+    error: string;
+    errorText: string;
+  };
+  fonts: {
+    regularUrl: string; // Empty to use the bundled fonts
+    boldUrl: string;
+  };
+  logo: {
+    imageUrl: string; // PNG or JPEG drawn on the dark header bar; empty to draw the text
+    text: string; // Used when there is no image or it cannot be loaded
+  };
+  footerLines: string[]; // First line is the company name, drawn in bold
+  version: string;
+}
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import type { PanelSize, SheetText } from '@/types'
 
 // Utility function to merge Tailwind classes
 export function cn(...inputs: ClassValue[]) {
@@ -27,6 +28,29 @@ export function formatDate(date: string | Date): string {
   })
 }
 
+// Panel sizes are stored imperial first, e.g. '3/4-in (20mm)'. Metric packets
+// swap the two halves to read '20mm (3/4-in)'; other strings are left as they are.
+export function formatPanelSize(size: string | PanelSize, metricFirst: boolean): string {
+  if (typeof size !== 'string') {
+    return metricFirst ? `${size.metric} (${size.imperial})` : `${size.imperial} (${size.metric})`
+  }
+  if (!metricFirst) return size
+  const match = size.match(/^(.+?)\s*\((.+)\)$/)
+  return match ? `${match[2]} (${match[1]})` : size
+}
+
+export function formatSheetText(text: SheetText, metricFirst: boolean): string {
+  const parts = Array.isArray(text) ? text : [text]
+  return parts.map(part => (typeof part === 'string' ? part : formatPanelSize(part, metricFirst))).join('')
+}
+
+// Hex SHA-256 digest of bytes, or of a string's UTF-8 encoding
+export async function sha256(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+  const digest = await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
 // Generate unique ID
 export function generateId(): string {
   return Math.random().toString(36).substr(2, 9)
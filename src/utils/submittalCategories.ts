@@ -0,0 +1,37 @@
+import type { SubmittalCategory } from '@/types'
+
+export interface SubmittalCategoryGroup {
+  category: SubmittalCategory
+  children: SubmittalCategoryGroup[] // Empty for a category that is checked itself
+}
+
+// Top-level categories in order, each with its children in order, nested to any
+// depth. Children whose parent is not in the list are shown as top-level
+// categories, and so are categories whose parents loop back to them.
+export function groupSubmittalCategories(categories: SubmittalCategory[]): SubmittalCategoryGroup[] {
+  const ids = new Set(categories.map(category => category.id))
+  const grouped = new Set<string>()
+
+  const group = (category: SubmittalCategory): SubmittalCategoryGroup => {
+    grouped.add(category.id)
+    return {
+      category,
+      children: categories
+        .filter(child => child.parentId === category.id && !grouped.has(child.id))
+        .map(child => group(child)),
+    }
+  }
+
+  const groups = categories
+    .filter(category => !category.parentId || !ids.has(category.parentId))
+    .map(category => group(category))
+  categories.forEach(category => {
+    if (!grouped.has(category.id)) groups.push(group(category))
+  })
+  return groups
+}
+
+// The categories that can be checked: all but group headers
+export function checkableSubmittalCategories(categories: SubmittalCategory[]): SubmittalCategory[] {
+  return categories.filter(category => !categories.some(child => child.parentId === category.id))
+}
@@ -0,0 +1,58 @@
+/*
+  # Create Products Table
+
+  1. New Tables
+    - `products` - Product lines offered in the packet builder
+      - `id` (text, primary key) - Slug referenced by `documents.product_type`
+      - `name` (text) - Short name shown on product cards and admin categories
+      - `full_name` (text) - Full product name printed in the packet
+      - `form_title` (text) - Title of the submittal form cover page
+      - `csi_section` (text) - CSI MasterFormat section number, e.g. 06 16 23
+      - `thicknesses` (text array) - Panel thicknesses offered on the project form
+      - `sort_order` (integer) - Display order in the product selection step
+      - `active` (boolean) - Inactive products are hidden from the builder
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Seed Data
+    - MAXTERRA® structural floor panels and underlayment panels, matching the
+      `product_type` values already used by existing documents
+
+  3. Security
+    - No RLS enabled (same as `documents`)
+*/
+
+CREATE TABLE IF NOT EXISTS products (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  full_name text NOT NULL,
+  form_title text NOT NULL,
+  csi_section text NOT NULL,
+  thicknesses text[] DEFAULT '{}',
+  sort_order integer DEFAULT 0,
+  active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO products (id, name, full_name, form_title, csi_section, thicknesses, sort_order)
+VALUES
+  (
+    'structural-floor',
+    'Structural Floor Panel',
+    'MAXTERRA® MgO Non-Combustible Structural Floor Panels',
+    'MAXTERRA® MgO Non-Combustible Structural Floor Panels Submittal Form',
+    '06 16 23',
+    ARRAY['3/4-in (20mm)'],
+    1
+  ),
+  (
+    'underlayment',
+    'Underlayment Panel',
+    'MAXTERRA® MgO Fire- And Water-Resistant Underlayment Panels',
+    'MAXTERRA® MgO Non-Combustible Underlayment Panels Submittal Form',
+    '06 16 26',
+    ARRAY['1/2-in (12mm)', '5/8-in (16mm)'],
+    2
+  )
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,29 @@
+/*
+  # Add CSI Section Metadata to Products
+
+  1. Modified Tables
+    - `products`
+      - `csi_title` (text) - CSI MasterFormat section title
+      - `csi_division` (text) - MasterFormat division the section belongs to
+
+  2. Data
+    - Titles and divisions for the seeded MAXTERRA® products
+
+  3. Notes
+    - Every generated page header shows `csi_section`, `csi_title` and `csi_division`
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS csi_title text NOT NULL DEFAULT '';
+ALTER TABLE products ADD COLUMN IF NOT EXISTS csi_division text NOT NULL DEFAULT '';
+
+UPDATE products
+SET
+  csi_title = 'MgO Non-Combustible Structural Floor Panels',
+  csi_division = 'Division 06 – Wood, Plastics, and Composites'
+WHERE id = 'structural-floor';
+
+UPDATE products
+SET
+  csi_title = 'Underlayment',
+  csi_division = 'Division 06 – Wood, Plastics, and Composites'
+WHERE id = 'underlayment';
@@ -0,0 +1,26 @@
+/*
+  # Create Packet Themes Table
+
+  1. New Tables
+    - `packet_themes` - Branding applied to generated packet pages
+      - `id` (text, primary key) - `default` for the NEXGEN theme; other ids are
+        available for distributor co-branded themes
+      - `theme` (jsonb) - Colors, font URLs, logo, footer lines and version string.
+        Missing values fall back to the defaults built into the app.
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - No RLS enabled (same as `documents`)
+*/
+
+CREATE TABLE IF NOT EXISTS packet_themes (
+  id text PRIMARY KEY,
+  theme jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO packet_themes (id, theme)
+VALUES ('default', '{}')
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,89 @@
+/*
+  # Create Document Tags
+
+  1. New Tables
+    - `document_tags` - Admin-managed labels such as ESR-5194 or Fire Assembly 03
+      - `id` (text, primary key) - Slug, e.g. `fire-assembly-03`
+      - `name` (text) - Label shown in the admin panel
+      - `submittal_type` (text, nullable) - `submittalType` flag of the submittal
+        form checked when a document with this tag is in the packet, e.g.
+        `fireAssembly03`. Tags without one only label documents.
+      - `sort_order` (integer) - Display order in the admin panel
+      - `created_at` (timestamp)
+    - `document_tag_assignments` - Which documents carry which tags
+      - `document_id` (uuid) - References `documents`, removed with the document
+      - `tag_id` (text) - References `document_tags`, removed with the tag
+
+  2. Data
+    - One tag per submittal type the submittal form lists
+    - Existing documents are tagged by the name and type rules the packet
+      builder used before tags, so current packets keep their checked boxes
+
+  3. Security
+    - No RLS enabled (same as `documents`)
+*/
+
+CREATE TABLE IF NOT EXISTS document_tags (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  submittal_type text,
+  sort_order integer DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS document_tag_assignments (
+  document_id uuid NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  tag_id text NOT NULL REFERENCES document_tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (document_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_tag_assignments_tag_id ON document_tag_assignments(tag_id);
+
+INSERT INTO document_tags (id, name, submittal_type, sort_order)
+VALUES
+  ('tds', 'Technical Data Sheet', 'tds', 1),
+  ('three-part-specs', '3-Part Specifications', 'threePartSpecs', 2),
+  ('esr-5194', 'ESR-5194', 'testReportIccEsr5194', 3),
+  ('esr-5192', 'ESR-5192', 'testReportIccEsr5192', 4),
+  ('esl-1645', 'ESL-1645', 'testReportIccEsl1645', 5),
+  ('fire-assembly-01', 'Fire Assembly 01', 'fireAssembly01', 6),
+  ('fire-assembly-02', 'Fire Assembly 02', 'fireAssembly02', 7),
+  ('fire-assembly-03', 'Fire Assembly 03', 'fireAssembly03', 8),
+  ('fire-assembly-04', 'Fire Assembly 04', 'fireAssembly04', 9),
+  ('fire-assembly-05', 'Fire Assembly 05', 'fireAssembly05', 10),
+  ('fire-assembly-06', 'Fire Assembly 06', 'fireAssembly06', 11),
+  ('fire-assembly-07', 'Fire Assembly 07', 'fireAssembly07', 12),
+  ('fire-assembly-08', 'Fire Assembly 08', 'fireAssembly08', 13),
+  ('fire-assembly-09', 'Fire Assembly 09', 'fireAssembly09', 14),
+  ('msds', 'MSDS', 'msds', 15),
+  ('leed-guide', 'LEED Guide', 'leedGuide', 16),
+  ('installation-guide', 'Installation Guide', 'installationGuide', 17),
+  ('warranty', 'Warranty', 'warranty', 18)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO document_tag_assignments (document_id, tag_id)
+SELECT documents.id, rules.tag_id
+FROM documents
+JOIN (
+  VALUES
+    ('tds', ARRAY['%technical data sheet%'], 'tds'),
+    ('three-part-specs', ARRAY['%3-part spec%'], 'partspec'),
+    ('esr-5194', ARRAY['%esr-5194%', '%esr 5194%'], NULL),
+    ('esr-5192', ARRAY['%esr-5192%', '%esr 5192%'], NULL),
+    ('esl-1645', ARRAY['%esl-1645%', '%esl 1645%', '%acoustical%'], NULL),
+    ('fire-assembly-01', ARRAY['%fire assembly 01%'], NULL),
+    ('fire-assembly-02', ARRAY['%fire assembly 02%'], NULL),
+    ('fire-assembly-03', ARRAY['%fire assembly 03%'], NULL),
+    ('fire-assembly-04', ARRAY['%fire assembly 04%'], NULL),
+    ('fire-assembly-05', ARRAY['%fire assembly 05%'], NULL),
+    ('fire-assembly-06', ARRAY['%fire assembly 06%'], NULL),
+    ('fire-assembly-07', ARRAY['%fire assembly 07%'], NULL),
+    ('fire-assembly-08', ARRAY['%fire assembly 08%'], NULL),
+    ('fire-assembly-09', ARRAY['%fire assembly 09%'], NULL),
+    ('msds', ARRAY['%msds%', '%material safety%'], 'msds'),
+    ('leed-guide', ARRAY['%leed%'], 'leed'),
+    ('installation-guide', ARRAY['%installation%'], 'installation'),
+    ('warranty', ARRAY['%warranty%'], 'warranty')
+) AS rules(tag_id, name_patterns, document_type)
+  ON documents.name ILIKE ANY (rules.name_patterns) OR lower(documents.type) = rules.document_type
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,96 @@
+/*
+  # Create Submittal Categories
+
+  1. New Tables
+    - `submittal_categories` - Checklist of each product's submittal form
+      - `product_type` (text) - References `products`
+      - `id` (text) - Slug, e.g. `fire-assembly-03`. Products that list the
+        same category use the same id, so one document tag serves all of them.
+      - `label` (text) - Text printed next to the checkbox
+      - `parent_id` (text, nullable) - Category of the same product this one is
+        listed under, e.g. `fire-assembly`
+      - `sort_order` (integer) - Order on the submittal form
+      - `created_at` (timestamp)
+
+  2. Modified Tables
+    - `document_tags`
+      - `submittal_type` renamed to `submittal_category`, now holding a
+        submittal category id instead of a form field name
+
+  3. Data
+    - The checklist the submittal form had so far, for both seeded products
+
+  4. Security
+    - No RLS enabled (same as `documents`)
+*/
+
+CREATE TABLE IF NOT EXISTS submittal_categories (
+  product_type text NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  id text NOT NULL,
+  label text NOT NULL,
+  parent_id text,
+  sort_order integer DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (product_type, id),
+  FOREIGN KEY (product_type, parent_id) REFERENCES submittal_categories(product_type, id) ON DELETE CASCADE
+);
+
+INSERT INTO submittal_categories (product_type, id, label, parent_id, sort_order)
+SELECT products.id, categories.id, categories.label, categories.parent_id, categories.sort_order
+FROM products
+CROSS JOIN (
+  VALUES
+    ('tds', 'Technical Data Sheet', NULL, 1),
+    ('three-part-specs', '3-Part Specifications', NULL, 2),
+    ('esr-5194', 'Test Report ICC-ES ESR-5194', NULL, 3),
+    ('esr-5192', 'Test Report ICC-ES ESR-5192', NULL, 4),
+    ('esl-1645', 'Test Report ICC-ES ESL-1645', NULL, 5),
+    ('fire-assembly', 'Fire Assembly', NULL, 6),
+    ('fire-assembly-01', 'Fire Assembly 01', 'fire-assembly', 7),
+    ('fire-assembly-02', 'Fire Assembly 02', 'fire-assembly', 8),
+    ('fire-assembly-03', 'Fire Assembly 03', 'fire-assembly', 9),
+    ('fire-assembly-04', 'Fire Assembly 04', 'fire-assembly', 10),
+    ('fire-assembly-05', 'Fire Assembly 05', 'fire-assembly', 11),
+    ('fire-assembly-06', 'Fire Assembly 06', 'fire-assembly', 12),
+    ('fire-assembly-07', 'Fire Assembly 07', 'fire-assembly', 13),
+    ('fire-assembly-08', 'Fire Assembly 08', 'fire-assembly', 14),
+    ('fire-assembly-09', 'Fire Assembly 09', 'fire-assembly', 15),
+    ('msds', 'MSDS', NULL, 16),
+    ('leed-guide', 'LEED Guide', NULL, 17),
+    ('installation-guide', 'Installation Guide', NULL, 18),
+    ('warranty', 'Warranty', NULL, 19),
+    ('samples', 'Samples', NULL, 20),
+    ('other', 'Other', NULL, 21)
+) AS categories(id, label, parent_id, sort_order)
+WHERE products.id IN ('structural-floor', 'underlayment')
+ON CONFLICT (product_type, id) DO NOTHING;
+
+ALTER TABLE document_tags RENAME COLUMN submittal_type TO submittal_category;
+
+UPDATE document_tags
+SET submittal_category = categories.id
+FROM (
+  VALUES
+    ('tds', 'tds'),
+    ('threePartSpecs', 'three-part-specs'),
+    ('testReportIccEsr5194', 'esr-5194'),
+    ('testReportIccEsr5192', 'esr-5192'),
+    ('testReportIccEsl1645', 'esl-1645'),
+    ('fireAssembly', 'fire-assembly'),
+    ('fireAssembly01', 'fire-assembly-01'),
+    ('fireAssembly02', 'fire-assembly-02'),
+    ('fireAssembly03', 'fire-assembly-03'),
+    ('fireAssembly04', 'fire-assembly-04'),
+    ('fireAssembly05', 'fire-assembly-05'),
+    ('fireAssembly06', 'fire-assembly-06'),
+    ('fireAssembly07', 'fire-assembly-07'),
+    ('fireAssembly08', 'fire-assembly-08'),
+    ('fireAssembly09', 'fire-assembly-09'),
+    ('msds', 'msds'),
+    ('leedGuide', 'leed-guide'),
+    ('installationGuide', 'installation-guide'),
+    ('warranty', 'warranty'),
+    ('samples', 'samples'),
+    ('other', 'other')
+) AS categories(field, id)
+WHERE document_tags.submittal_category = categories.field;
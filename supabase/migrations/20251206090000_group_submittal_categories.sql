@@ -0,0 +1,70 @@
+/*
+  # Group Submittal Categories
+
+  1. Modified Tables
+    - `submittal_categories`
+      - `free_text` (boolean) - The category is printed with the text entered
+        for it on the project form, e.g. Other
+
+  2. Data
+    - The seeded checklists are grouped the way submittal forms are: Product
+      Data, Test Reports, Fire Assemblies, Sustainability, and Installation &
+      Warranty. Categories with children are printed as group headers.
+    - Other is a free-text category
+
+  3. Notes
+    - Only categories without children are checked, so document tags that point
+      at a group header no longer check anything
+*/
+
+ALTER TABLE submittal_categories ADD COLUMN IF NOT EXISTS free_text boolean NOT NULL DEFAULT false;
+
+INSERT INTO submittal_categories (product_type, id, label, sort_order)
+SELECT products.id, groups.id, groups.label, groups.sort_order
+FROM products
+CROSS JOIN (
+  VALUES
+    ('product-data', 'Product Data', 1),
+    ('test-reports', 'Test Reports', 10),
+    ('sustainability', 'Sustainability', 40),
+    ('installation-warranty', 'Installation & Warranty', 50)
+) AS groups(id, label, sort_order)
+WHERE products.id IN ('structural-floor', 'underlayment')
+ON CONFLICT (product_type, id) DO NOTHING;
+
+UPDATE submittal_categories
+SET parent_id = layout.parent_id, sort_order = layout.sort_order
+FROM (
+  VALUES
+    ('tds', 'product-data', 2),
+    ('three-part-specs', 'product-data', 3),
+    ('msds', 'product-data', 4),
+    ('esr-5194', 'test-reports', 11),
+    ('esr-5192', 'test-reports', 12),
+    ('esl-1645', 'test-reports', 13),
+    ('fire-assembly', NULL, 20),
+    ('fire-assembly-01', 'fire-assembly', 21),
+    ('fire-assembly-02', 'fire-assembly', 22),
+    ('fire-assembly-03', 'fire-assembly', 23),
+    ('fire-assembly-04', 'fire-assembly', 24),
+    ('fire-assembly-05', 'fire-assembly', 25),
+    ('fire-assembly-06', 'fire-assembly', 26),
+    ('fire-assembly-07', 'fire-assembly', 27),
+    ('fire-assembly-08', 'fire-assembly', 28),
+    ('fire-assembly-09', 'fire-assembly', 29),
+    ('leed-guide', 'sustainability', 41),
+    ('installation-guide', 'installation-warranty', 51),
+    ('warranty', 'installation-warranty', 52),
+    ('samples', NULL, 60),
+    ('other', NULL, 61)
+) AS layout(id, parent_id, sort_order)
+WHERE submittal_categories.id = layout.id
+  AND submittal_categories.product_type IN ('structural-floor', 'underlayment');
+
+UPDATE submittal_categories
+SET label = 'Fire Assemblies'
+WHERE id = 'fire-assembly' AND product_type IN ('structural-floor', 'underlayment');
+
+UPDATE submittal_categories
+SET free_text = true
+WHERE id = 'other';